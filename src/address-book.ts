@@ -0,0 +1,171 @@
+import type { ShippingAddress } from './index';
+import { getDataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { validateShippingAddress } from './address-validation';
+
+/**
+ * A saved shipping address, with the email used for orders shipped to it
+ */
+export interface AddressProfile {
+  name: string;
+  address: ShippingAddress;
+  email?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Address book stored in the local address book file
+ */
+export interface AddressBook {
+  // Profile used when an order names no address
+  defaultProfile?: string;
+  profiles: Record<string, AddressProfile>;
+}
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Get the path of the address book file
+ * @returns ADDRESS_BOOK_FILE if set, otherwise addresses.json in the data directory
+ */
+export function getAddressBookPath(): string {
+  return process.env.ADDRESS_BOOK_FILE || getDataFilePath('addresses.json');
+}
+
+/**
+ * Load the address book from disk
+ * @param filePath Address book file path
+ * @returns Address book, empty if the file does not exist
+ */
+export function loadAddressBook(filePath: string = getAddressBookPath()): AddressBook {
+  const book = readJsonFile<AddressBook>(filePath, { profiles: {} });
+  if (typeof book !== 'object' || book === null || typeof book.profiles !== 'object' || book.profiles === null) {
+    throw new Error(`Invalid address book in ${filePath}: expected a "profiles" object`);
+  }
+  return book;
+}
+
+/**
+ * Save an address profile, replacing an existing profile of the same name only when asked to
+ * @param name Profile name, e.g. "office"
+ * @param address Shipping address
+ * @param options Email for orders shipped to the profile, whether to replace an existing profile and whether to
+ * make it the default
+ * @param filePath Address book file path
+ * @returns Saved profile, with the address in canonical form
+ * @throws InvalidAddressError if the address is malformed
+ */
+export function saveAddressProfile(
+  name: string,
+  address: ShippingAddress,
+  options: { email?: string; replace?: boolean; makeDefault?: boolean } = {},
+  filePath: string = getAddressBookPath()
+): AddressProfile {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid address profile name: ${name}. Use letters, digits, "-" and "_"`);
+  }
+  const shippingAddress = validateShippingAddress(address);
+
+  const book = loadAddressBook(filePath);
+  const existing = book.profiles[name];
+  if (existing && !options.replace) {
+    throw new Error(`Address profile ${name} already exists, use --force to replace it`);
+  }
+
+  const now = new Date().toISOString();
+  const profile: AddressProfile = {
+    name,
+    address: shippingAddress,
+    email: options.email,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+  book.profiles[name] = profile;
+  if (options.makeDefault) {
+    book.defaultProfile = name;
+  }
+  writeJsonFile(filePath, book);
+
+  return profile;
+}
+
+/**
+ * Get a saved address profile
+ * @param name Profile name
+ * @param filePath Address book file path
+ * @returns Profile
+ * @throws Error if no profile has that name
+ */
+export function getAddressProfile(name: string, filePath: string = getAddressBookPath()): AddressProfile {
+  const book = loadAddressBook(filePath);
+  const profile = book.profiles[name];
+  if (!profile) {
+    const known = Object.keys(book.profiles);
+    throw new Error(`Unknown address profile: ${name}${known.length > 0 ? `. Saved profiles are: ${known.join(', ')}` : ''}`);
+  }
+  return profile;
+}
+
+/**
+ * List saved address profiles by name
+ * @param filePath Address book file path
+ * @returns Profiles
+ */
+export function listAddressProfiles(filePath: string = getAddressBookPath()): AddressProfile[] {
+  return Object.values(loadAddressBook(filePath).profiles).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Remove a saved address profile, clearing the default if it was the default
+ * @param name Profile name
+ * @param filePath Address book file path
+ * @throws Error if no profile has that name
+ */
+export function removeAddressProfile(name: string, filePath: string = getAddressBookPath()): void {
+  getAddressProfile(name, filePath);
+
+  const book = loadAddressBook(filePath);
+  delete book.profiles[name];
+  if (book.defaultProfile === name) {
+    delete book.defaultProfile;
+  }
+  writeJsonFile(filePath, book);
+}
+
+/**
+ * Make a saved profile the default
+ * @param name Profile name
+ * @param filePath Address book file path
+ * @throws Error if no profile has that name
+ */
+export function setDefaultAddressProfile(name: string, filePath: string = getAddressBookPath()): void {
+  getAddressProfile(name, filePath);
+
+  const book = loadAddressBook(filePath);
+  book.defaultProfile = name;
+  writeJsonFile(filePath, book);
+}
+
+/**
+ * Resolve the profile an order ships to
+ * @param name Profile name, or undefined to use the default profile
+ * @param filePath Address book file path
+ * @returns Named or default profile, or undefined if no name is given and there is no default
+ */
+export function resolveAddressProfile(name?: string, filePath: string = getAddressBookPath()): AddressProfile | undefined {
+  if (name) {
+    return getAddressProfile(name, filePath);
+  }
+
+  const { defaultProfile } = loadAddressBook(filePath);
+  return defaultProfile ? getAddressProfile(defaultProfile, filePath) : undefined;
+}
+
+/**
+ * Format a shipping address on one line
+ * @param address Shipping address
+ * @returns e.g. "Jane Doe, 1 Main St, Springfield, IL 62701, US"
+ */
+export function formatShippingAddress(address: ShippingAddress): string {
+  return `${address.name}, ${address.line1}${address.line2 ? ', ' + address.line2 : ''}, ${address.city}, ${address.state} ${address.postalCode}, ${address.country}`;
+}
@@ -0,0 +1,233 @@
+import type { ShippingAddress } from './index';
+import { InvalidAddressError } from './errors';
+
+/**
+ * How addresses in one country are written, keyed by ISO 3166-1 alpha-2 code in COUNTRY_ADDRESS_RULES
+ */
+export interface CountryAddressRules {
+  name: string;
+  // Other ways users write the country, upper case, e.g. the alpha-3 code
+  aliases: string[];
+  postalCode: {
+    pattern: RegExp;
+    // Shown in error messages and prompts
+    example: string;
+    // Turns accepted input into the canonical form, e.g. "627011234" into "62701-1234"
+    normalize?: (postalCode: string) => string;
+  };
+  // ISO 3166-2 subdivision codes and names; when set, the state must be one of them
+  subdivisions?: Record<string, string>;
+  // Whether carriers deliver orders to post office boxes
+  allowPoBox: boolean;
+}
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+  AS: 'American Samoa',
+  GU: 'Guam',
+  MP: 'Northern Mariana Islands',
+  PR: 'Puerto Rico',
+  VI: 'U.S. Virgin Islands',
+  AA: 'Armed Forces Americas',
+  AE: 'Armed Forces Europe',
+  AP: 'Armed Forces Pacific'
+};
+
+// Countries orders can ship to; supporting another country only takes a new entry
+export const COUNTRY_ADDRESS_RULES: Record<string, CountryAddressRules> = {
+  US: {
+    name: 'United States',
+    aliases: ['USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'],
+    postalCode: {
+      pattern: /^\d{5}(-\d{4})?$/,
+      example: '62701 or 62701-1234',
+      normalize: postalCode => postalCode.replace(/^(\d{5})\s*-?\s*(\d{4})$/, '$1-$2')
+    },
+    subdivisions: US_STATES,
+    allowPoBox: false
+  }
+};
+
+// "PO Box 12", "P.O. Box", "Post Office Box", "POB 12"
+const PO_BOX_PATTERN = /\b(p\.?\s*o\.?\s*box|post\s+office\s+box|pob\s+\d)/i;
+
+/**
+ * Find the rules of a country
+ * @param country ISO 3166-1 alpha-2 code, or one of the country's aliases, in any case
+ * @param rules Country rules (default: the countries orders can ship to)
+ * @returns Alpha-2 code and rules, or undefined if the country is not supported
+ */
+export function findCountryRules(
+  country: string,
+  rules: Record<string, CountryAddressRules> = COUNTRY_ADDRESS_RULES
+): { code: string; rules: CountryAddressRules } | undefined {
+  const value = country.trim().toUpperCase();
+  const code = Object.keys(rules).find(candidate => candidate === value || rules[candidate].aliases.includes(value));
+  return code ? { code, rules: rules[code] } : undefined;
+}
+
+/**
+ * Get the countries orders can ship to
+ * @param rules Country rules
+ * @returns Alpha-2 codes, e.g. ["US"]
+ */
+export function listSupportedCountries(rules: Record<string, CountryAddressRules> = COUNTRY_ADDRESS_RULES): string[] {
+  return Object.keys(rules);
+}
+
+/**
+ * Turn a state as users write it into the country's subdivision code
+ * @param state State code or name, e.g. "ny", "New York" or "N.Y."
+ * @param countryRules Rules of the address's country
+ * @returns Subdivision code, e.g. "NY", the trimmed input if the country has no subdivision list, or undefined if
+ * the state is not one of the country's subdivisions
+ */
+export function normalizeState(state: string, countryRules: CountryAddressRules): string | undefined {
+  const trimmed = state.trim().replace(/\s+/g, ' ');
+  const subdivisions = countryRules.subdivisions;
+  if (!subdivisions) {
+    return trimmed;
+  }
+
+  const code = trimmed.replace(/\./g, '').toUpperCase();
+  if (subdivisions[code]) {
+    return code;
+  }
+  return Object.keys(subdivisions).find(candidate => subdivisions[candidate].toUpperCase() === trimmed.toUpperCase());
+}
+
+/**
+ * Check whether an address line is a post office box
+ * @param line Address line
+ * @returns True for lines such as "PO Box 12"
+ */
+export function isPoBox(line: string): boolean {
+  return PO_BOX_PATTERN.test(line);
+}
+
+/**
+ * Check a shipping address against its country's rules and bring it into canonical form
+ * @param address Shipping address as entered
+ * @param rules Country rules (default: the countries orders can ship to)
+ * @returns Normalized address, and the problems found; the address is only usable if there are none
+ */
+export function checkShippingAddress(
+  address: ShippingAddress,
+  rules: Record<string, CountryAddressRules> = COUNTRY_ADDRESS_RULES
+): { address: ShippingAddress; problems: string[] } {
+  const problems: string[] = [];
+  const normalized: ShippingAddress = {
+    name: (address.name || '').trim(),
+    line1: (address.line1 || '').trim(),
+    city: (address.city || '').trim(),
+    state: (address.state || '').trim(),
+    postalCode: (address.postalCode || '').trim().toUpperCase(),
+    country: (address.country || '').trim().toUpperCase()
+  };
+  if (address.line2?.trim()) {
+    normalized.line2 = address.line2.trim();
+  }
+
+  for (const field of ['name', 'line1', 'city', 'state', 'postalCode', 'country'] as const) {
+    if (!normalized[field]) {
+      problems.push(`${field} is required`);
+    }
+  }
+
+  const country = normalized.country ? findCountryRules(normalized.country, rules) : undefined;
+  if (normalized.country && !country) {
+    problems.push(`country ${normalized.country} is not supported, use one of: ${listSupportedCountries(rules).join(', ')}`);
+  }
+  if (!country) {
+    return { address: normalized, problems };
+  }
+  normalized.country = country.code;
+
+  if (normalized.state) {
+    const state = normalizeState(normalized.state, country.rules);
+    if (state) {
+      normalized.state = state;
+    } else {
+      problems.push(`state ${normalized.state} is not a ${country.rules.name} state or region code`);
+    }
+  }
+
+  if (normalized.postalCode) {
+    const postalCode = country.rules.postalCode.normalize?.(normalized.postalCode) ?? normalized.postalCode;
+    if (country.rules.postalCode.pattern.test(postalCode)) {
+      normalized.postalCode = postalCode;
+    } else {
+      problems.push(`postal code ${normalized.postalCode} is not valid in ${country.rules.name}, e.g. ${country.rules.postalCode.example}`);
+    }
+  }
+
+  if (!country.rules.allowPoBox && [normalized.line1, normalized.line2].some(line => line && isPoBox(line))) {
+    problems.push(`orders to ${country.rules.name} cannot ship to PO boxes`);
+  }
+
+  return { address: normalized, problems };
+}
+
+/**
+ * Validate a shipping address and bring it into canonical form
+ * @param address Shipping address as entered
+ * @returns Normalized address
+ * @throws InvalidAddressError listing every problem with the address
+ */
+export function validateShippingAddress(address: ShippingAddress): ShippingAddress {
+  const result = checkShippingAddress(address);
+  if (result.problems.length > 0) {
+    throw new InvalidAddressError(result.problems);
+  }
+  return result.address;
+}
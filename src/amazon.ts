@@ -0,0 +1,120 @@
+import { UnsupportedMarketplaceError } from './errors';
+
+/**
+ * An Amazon storefront, identified by its domain
+ */
+export interface AmazonMarketplace {
+  // ISO 3166-1 alpha-2 code of the marketplace's country, e.g. "GB" for amazon.co.uk
+  code: string;
+  domain: string;
+  // Whether Crossmint can buy from this marketplace
+  supported: boolean;
+}
+
+/**
+ * A product parsed from an Amazon URL
+ */
+export interface AmazonProduct {
+  asin: string;
+  marketplace: AmazonMarketplace;
+}
+
+// Crossmint buys from amazon.com; other marketplaces are recognized so links to them get a clear error
+export const AMAZON_MARKETPLACES: AmazonMarketplace[] = [
+  { code: 'US', domain: 'amazon.com', supported: true },
+  { code: 'CA', domain: 'amazon.ca', supported: false },
+  { code: 'MX', domain: 'amazon.com.mx', supported: false },
+  { code: 'BR', domain: 'amazon.com.br', supported: false },
+  { code: 'GB', domain: 'amazon.co.uk', supported: false },
+  { code: 'IE', domain: 'amazon.ie', supported: false },
+  { code: 'DE', domain: 'amazon.de', supported: false },
+  { code: 'FR', domain: 'amazon.fr', supported: false },
+  { code: 'IT', domain: 'amazon.it', supported: false },
+  { code: 'ES', domain: 'amazon.es', supported: false },
+  { code: 'NL', domain: 'amazon.nl', supported: false },
+  { code: 'BE', domain: 'amazon.com.be', supported: false },
+  { code: 'SE', domain: 'amazon.se', supported: false },
+  { code: 'PL', domain: 'amazon.pl', supported: false },
+  { code: 'TR', domain: 'amazon.com.tr', supported: false },
+  { code: 'AE', domain: 'amazon.ae', supported: false },
+  { code: 'SA', domain: 'amazon.sa', supported: false },
+  { code: 'EG', domain: 'amazon.eg', supported: false },
+  { code: 'IN', domain: 'amazon.in', supported: false },
+  { code: 'JP', domain: 'amazon.co.jp', supported: false },
+  { code: 'SG', domain: 'amazon.sg', supported: false },
+  { code: 'AU', domain: 'amazon.com.au', supported: false }
+];
+
+// Amazon's own short domain for amazon.com product pages, e.g. amzn.com/B01DFKC2SO
+const SHORT_LINK_HOSTS = ['amzn.com', 'www.amzn.com'];
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/i;
+
+// Paths that end in the ASIN, e.g. /Product-Name/dp/B01DFKC2SO/ref=sr_1_1, /gp/product/B01DFKC2SO or the mobile
+// /gp/aw/d/B01DFKC2SO
+const ASIN_PATH_PATTERN =
+  /\/(?:dp(?:\/product)?|gp\/product(?:\/glance)?|gp\/aw\/d|gp\/offer-listing|product-reviews|exec\/obidos\/asin|o\/asin)\/([A-Z0-9]{10})(?=[/?#]|$)/i;
+
+/**
+ * Check whether a value is an ASIN
+ * @param value Possible ASIN, in any case
+ * @returns True for 10 letters and digits, e.g. "B01DFKC2SO"
+ */
+export function isAsin(value: string): boolean {
+  return ASIN_PATTERN.test(value);
+}
+
+/**
+ * Find the marketplace an Amazon host belongs to
+ * @param hostname Host of an Amazon URL, e.g. "www.amazon.co.uk" or "smile.amazon.com"
+ * @returns Marketplace, or undefined if the host is not an Amazon storefront
+ */
+export function findAmazonMarketplace(hostname: string): AmazonMarketplace | undefined {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (SHORT_LINK_HOSTS.includes(host)) {
+    return AMAZON_MARKETPLACES.find(marketplace => marketplace.code === 'US');
+  }
+  return AMAZON_MARKETPLACES.find(marketplace => host === marketplace.domain || host.endsWith(`.${marketplace.domain}`));
+}
+
+/**
+ * Parse an Amazon product URL
+ * @param url Product URL, with or without the scheme
+ * @returns ASIN in upper case and marketplace, or null if the URL is not an Amazon product page
+ */
+export function parseAmazonUrl(url: string): AmazonProduct | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return null;
+  }
+
+  const marketplace = findAmazonMarketplace(parsed.hostname);
+  if (!marketplace) {
+    return null;
+  }
+
+  // Short links put the ASIN right after the host
+  const isShortLink = SHORT_LINK_HOSTS.includes(parsed.hostname.toLowerCase());
+  const match = parsed.pathname.match(isShortLink ? /^\/(?:dp\/)?([A-Z0-9]{10})\/?$/i : ASIN_PATH_PATTERN);
+  return match ? { asin: match[1].toUpperCase(), marketplace } : null;
+}
+
+/**
+ * Create the Crossmint product locator of an Amazon product
+ * @param product ASIN and marketplace
+ * @returns "amazon:<ASIN>" for amazon.com, or the product page URL for other supported marketplaces
+ * @throws UnsupportedMarketplaceError if Crossmint cannot buy from the marketplace
+ */
+export function createAmazonProductLocator(product: AmazonProduct): string {
+  const { asin, marketplace } = product;
+  if (!marketplace.supported) {
+    const supported = AMAZON_MARKETPLACES.filter(candidate => candidate.supported).map(candidate => candidate.domain);
+    throw new UnsupportedMarketplaceError(marketplace.domain, supported);
+  }
+  return marketplace.code === 'US' ? `amazon:${asin}` : `amazon:https://www.${marketplace.domain}/dp/${asin}`;
+}
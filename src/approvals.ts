@@ -0,0 +1,195 @@
+import {
+  OrderOptions,
+  OrderQuoteSummary,
+  assertQuotePayable,
+  getOrderLineItems,
+  getOrderStatus,
+  getProductReference,
+  payForOrder,
+  quoteOrder,
+  summarizeOrderQuote
+} from './index';
+import { PaymentReceipt } from './payment';
+import { ProductReference } from './policy';
+import { SignerLike } from './signers';
+import { QuoteExpiredError } from './errors';
+import { getDataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+// payment-failed: approved, but the payment failed; approve may retry it
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'payment-failed';
+
+/**
+ * An order parked until a person approves or rejects it
+ */
+export interface ApprovalRequest {
+  orderId: string;
+  status: ApprovalStatus;
+  quote: OrderQuoteSummary;
+  products: ProductReference[];
+  requestedAt: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  reason?: string;
+  // Error of the last failed payment attempt
+  paymentError?: string;
+  transactionHash?: string;
+}
+
+interface ApprovalStore {
+  approvals: Record<string, ApprovalRequest>;
+}
+
+/**
+ * Get the path of the approval store file
+ * @returns approvals.json in the data directory
+ */
+export function getApprovalStorePath(): string {
+  return getDataFilePath('approvals.json');
+}
+
+function loadApprovalStore(): ApprovalStore {
+  return readJsonFile<ApprovalStore>(getApprovalStorePath(), { approvals: {} });
+}
+
+function saveApprovalRequest(request: ApprovalRequest): void {
+  const store = loadApprovalStore();
+  store.approvals[request.orderId] = request;
+  writeJsonFile(getApprovalStorePath(), store);
+}
+
+/**
+ * Get a stored approval request
+ * @param orderId Order ID
+ * @returns Approval request, or undefined if the order was never parked for approval
+ */
+export function getApprovalRequest(orderId: string): ApprovalRequest | undefined {
+  return loadApprovalStore().approvals[orderId];
+}
+
+/**
+ * List stored approval requests, oldest first
+ * @param status Only return requests with this status
+ * @returns Approval requests
+ */
+export function listApprovalRequests(status?: ApprovalStatus): ApprovalRequest[] {
+  return Object.values(loadApprovalStore().approvals)
+    .filter(request => !status || request.status === status)
+    .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+}
+
+/**
+ * Get an approval request that is still waiting for a decision, or whose payment failed and may be retried
+ * @param orderId Order ID
+ * @returns Pending approval request
+ */
+function getPendingApprovalRequest(orderId: string): ApprovalRequest {
+  const request = getApprovalRequest(orderId);
+  if (!request) {
+    throw new Error(`No approval request found for order ${orderId}`);
+  }
+  if (request.status !== 'pending' && request.status !== 'payment-failed') {
+    throw new Error(`Order ${orderId} is already ${request.status}`);
+  }
+  return request;
+}
+
+/**
+ * Create and quote an order, then park it until a person approves it
+ * @param options Order options
+ * @returns Pending approval request
+ */
+export async function requestApproval(options: OrderOptions): Promise<ApprovalRequest> {
+  const quote = await quoteOrder(options);
+
+  const request: ApprovalRequest = {
+    orderId: quote.orderId,
+    status: 'pending',
+    quote,
+    products: getOrderLineItems(options).map(getProductReference),
+    requestedAt: new Date().toISOString()
+  };
+  saveApprovalRequest(request);
+
+  return request;
+}
+
+/**
+ * Fetch the current quote of an order waiting for approval
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @returns Fresh quote summary
+ */
+export async function getPendingApprovalQuote(orderId: string, apiKey: string): Promise<OrderQuoteSummary> {
+  getPendingApprovalRequest(orderId);
+
+  const statusResponse = await getOrderStatus(orderId, apiKey);
+  return { ...summarizeOrderQuote(statusResponse), orderId };
+}
+
+/**
+ * Approve a pending order and pay for it
+ * The request is marked approved only once the payment succeeds; a failed payment leaves it payment-failed, so
+ * approving it again retries the payment
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param signer Signer of the transaction, or a private key
+ * @param approvedBy Name of the person approving the order
+ * @returns Payment receipt
+ */
+export async function approveOrder(
+  orderId: string,
+  apiKey: string,
+  signer: SignerLike,
+  approvedBy: string
+): Promise<PaymentReceipt> {
+  const request = getPendingApprovalRequest(orderId);
+
+  // The quote may have expired while the order was waiting for a decision
+  const quote = await getPendingApprovalQuote(orderId, apiKey);
+  try {
+    assertQuotePayable(quote);
+  } catch (error) {
+    if (error instanceof QuoteExpiredError) {
+      saveApprovalRequest({ ...request, quote, status: 'expired' });
+    }
+    throw error;
+  }
+
+  const decision = { quote, decidedBy: approvedBy, decidedAt: new Date().toISOString() };
+
+  let receipt: PaymentReceipt;
+  try {
+    receipt = await payForOrder(orderId, apiKey, signer, { products: request.products }, { approved: true });
+  } catch (error) {
+    const paymentError = error instanceof Error ? error.message : String(error);
+    saveApprovalRequest({ ...request, ...decision, status: 'payment-failed', paymentError });
+    throw error;
+  }
+
+  const { paymentError, ...approvedRequest } = request;
+  saveApprovalRequest({ ...approvedRequest, ...decision, status: 'approved', transactionHash: receipt.transactionHash });
+
+  return receipt;
+}
+
+/**
+ * Reject a pending order so it is never paid
+ * @param orderId Order ID
+ * @param rejectedBy Name of the person rejecting the order
+ * @param reason Optional reason for the rejection
+ * @returns Rejected approval request
+ */
+export function rejectOrder(orderId: string, rejectedBy: string, reason?: string): ApprovalRequest {
+  const request = getPendingApprovalRequest(orderId);
+
+  const rejectedRequest: ApprovalRequest = {
+    ...request,
+    status: 'rejected',
+    decidedBy: rejectedBy,
+    decidedAt: new Date().toISOString(),
+    reason
+  };
+  saveApprovalRequest(rejectedRequest);
+
+  return rejectedRequest;
+}
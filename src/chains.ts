@@ -0,0 +1,235 @@
+import { UnsupportedChainError } from './errors';
+
+/**
+ * Everything the tool needs to know about a chain it can pay on
+ */
+interface BaseChainConfig {
+  testnet: boolean;
+  // Crossmint payment method for USDC on this chain
+  paymentMethod: string;
+  // Public endpoints used when no RPC URLs are configured, first is preferred
+  rpcUrls: string[];
+  // USDC contract on EVM chains, USDC mint on Solana
+  usdc: {
+    address: string;
+    decimals: number;
+  };
+  // Symbol of the token gas is paid in
+  nativeCurrency: string;
+  // Block explorer transaction page, "{hash}" is replaced with the transaction hash
+  explorerTxUrl: string;
+}
+
+export interface EvmChainConfig extends BaseChainConfig {
+  family: 'evm';
+  chainId: number;
+  // Most a payment transaction may spend on gas, in the native token, far above the cost of a USDC transfer
+  maxGasCost: string;
+}
+
+export interface SolanaChainConfig extends BaseChainConfig {
+  family: 'solana';
+  // Identifies the cluster, like a chain ID
+  genesisHash: string;
+}
+
+export type ChainConfig = EvmChainConfig | SolanaChainConfig;
+export type ChainFamily = ChainConfig['family'];
+
+// Chains keyed by the name used on the command line, with native USDC deployments
+export const CHAINS: Record<string, ChainConfig> = {
+  ethereum: {
+    family: 'evm',
+    chainId: 1,
+    testnet: false,
+    paymentMethod: 'ethereum',
+    rpcUrls: ['https://ethereum-rpc.publicnode.com', 'https://cloudflare-eth.com'],
+    usdc: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.01',
+    explorerTxUrl: 'https://etherscan.io/tx/{hash}'
+  },
+  'ethereum-sepolia': {
+    family: 'evm',
+    chainId: 11155111,
+    testnet: true,
+    paymentMethod: 'ethereum-sepolia',
+    rpcUrls: ['https://ethereum-sepolia-rpc.publicnode.com', 'https://rpc.sepolia.org'],
+    usdc: { address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.05',
+    explorerTxUrl: 'https://sepolia.etherscan.io/tx/{hash}'
+  },
+  base: {
+    family: 'evm',
+    chainId: 8453,
+    testnet: false,
+    paymentMethod: 'base',
+    rpcUrls: ['https://mainnet.base.org', 'https://base-rpc.publicnode.com'],
+    usdc: { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://basescan.org/tx/{hash}'
+  },
+  'base-sepolia': {
+    family: 'evm',
+    chainId: 84532,
+    testnet: true,
+    paymentMethod: 'base-sepolia',
+    rpcUrls: ['https://sepolia.base.org', 'https://base-sepolia-rpc.publicnode.com'],
+    usdc: { address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://sepolia.basescan.org/tx/{hash}'
+  },
+  polygon: {
+    family: 'evm',
+    chainId: 137,
+    testnet: false,
+    paymentMethod: 'polygon',
+    rpcUrls: ['https://polygon-rpc.com/', 'https://polygon-bor-rpc.publicnode.com'],
+    usdc: { address: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', decimals: 6 },
+    nativeCurrency: 'POL',
+    maxGasCost: '1',
+    explorerTxUrl: 'https://polygonscan.com/tx/{hash}'
+  },
+  'polygon-amoy': {
+    family: 'evm',
+    chainId: 80002,
+    testnet: true,
+    paymentMethod: 'polygon-amoy',
+    rpcUrls: ['https://rpc-amoy.polygon.technology/', 'https://polygon-amoy-bor-rpc.publicnode.com'],
+    usdc: { address: '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582', decimals: 6 },
+    nativeCurrency: 'POL',
+    maxGasCost: '1',
+    explorerTxUrl: 'https://amoy.polygonscan.com/tx/{hash}'
+  },
+  arbitrum: {
+    family: 'evm',
+    chainId: 42161,
+    testnet: false,
+    paymentMethod: 'arbitrum',
+    rpcUrls: ['https://arb1.arbitrum.io/rpc', 'https://arbitrum-one-rpc.publicnode.com'],
+    usdc: { address: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://arbiscan.io/tx/{hash}'
+  },
+  'arbitrum-sepolia': {
+    family: 'evm',
+    chainId: 421614,
+    testnet: true,
+    paymentMethod: 'arbitrum-sepolia',
+    rpcUrls: ['https://sepolia-rollup.arbitrum.io/rpc', 'https://arbitrum-sepolia-rpc.publicnode.com'],
+    usdc: { address: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://sepolia.arbiscan.io/tx/{hash}'
+  },
+  optimism: {
+    family: 'evm',
+    chainId: 10,
+    testnet: false,
+    paymentMethod: 'optimism',
+    rpcUrls: ['https://mainnet.optimism.io', 'https://optimism-rpc.publicnode.com'],
+    usdc: { address: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://optimistic.etherscan.io/tx/{hash}'
+  },
+  'optimism-sepolia': {
+    family: 'evm',
+    chainId: 11155420,
+    testnet: true,
+    paymentMethod: 'optimism-sepolia',
+    rpcUrls: ['https://sepolia.optimism.io', 'https://optimism-sepolia-rpc.publicnode.com'],
+    usdc: { address: '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', decimals: 6 },
+    nativeCurrency: 'ETH',
+    maxGasCost: '0.001',
+    explorerTxUrl: 'https://sepolia-optimism.etherscan.io/tx/{hash}'
+  },
+  solana: {
+    family: 'solana',
+    genesisHash: '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d',
+    testnet: false,
+    paymentMethod: 'solana',
+    rpcUrls: ['https://api.mainnet-beta.solana.com'],
+    usdc: { address: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', decimals: 6 },
+    nativeCurrency: 'SOL',
+    explorerTxUrl: 'https://explorer.solana.com/tx/{hash}'
+  },
+  'solana-devnet': {
+    family: 'solana',
+    genesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+    testnet: true,
+    paymentMethod: 'solana-devnet',
+    rpcUrls: ['https://api.devnet.solana.com'],
+    usdc: { address: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', decimals: 6 },
+    nativeCurrency: 'SOL',
+    explorerTxUrl: 'https://explorer.solana.com/tx/{hash}?cluster=devnet'
+  }
+};
+
+// Chains used when none is given: production API keys pay on mainnet, staging keys on a testnet
+export const DEFAULT_MAINNET_CHAIN = 'polygon';
+export const DEFAULT_TESTNET_CHAIN = 'polygon-amoy';
+
+/**
+ * Get the names of all supported chains
+ * @param options Restrict the list to testnets or mainnets, or to one chain family
+ * @returns Chain names, e.g. ["ethereum", "ethereum-sepolia", ...]
+ */
+export function listChains(options: { testnet?: boolean; family?: ChainFamily } = {}): string[] {
+  return Object.keys(CHAINS).filter(
+    chain =>
+      (options.testnet === undefined || CHAINS[chain].testnet === options.testnet) &&
+      (options.family === undefined || CHAINS[chain].family === options.family)
+  );
+}
+
+/**
+ * Look up a chain in the registry
+ * @param chain Chain name, e.g. "base"
+ * @returns Chain config
+ * @throws UnsupportedChainError if the chain is not in the registry
+ */
+export function getChain(chain: string): ChainConfig {
+  const config = CHAINS[chain];
+  if (!config) {
+    throw new UnsupportedChainError(chain);
+  }
+  return config;
+}
+
+/**
+ * Look up an EVM chain in the registry
+ * @param chain Chain name, e.g. "base"
+ * @returns Chain config
+ * @throws UnsupportedChainError if the chain is not an EVM chain in the registry
+ */
+export function getEvmChain(chain: string): EvmChainConfig {
+  const config = CHAINS[chain];
+  if (config?.family !== 'evm') {
+    throw new UnsupportedChainError(chain);
+  }
+  return config;
+}
+
+/**
+ * Find the chain a Crossmint payment method pays on
+ * @param paymentMethod Payment method of an order, e.g. "base-sepolia"
+ * @returns Chain name, or undefined if no chain uses the payment method
+ */
+export function findChainByPaymentMethod(paymentMethod: string): string | undefined {
+  return Object.keys(CHAINS).find(chain => CHAINS[chain].paymentMethod === paymentMethod);
+}
+
+/**
+ * Get the block explorer page of a transaction
+ * @param chain Chain name
+ * @param transactionHash Transaction hash
+ * @returns Explorer URL, or undefined if the chain is not in the registry
+ */
+export function getExplorerTransactionUrl(chain: string, transactionHash: string): string | undefined {
+  return CHAINS[chain]?.explorerTxUrl.replace('{hash}', transactionHash);
+}
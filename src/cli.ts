@@ -1,240 +1,850 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import dotenv from 'dotenv';
+import os from 'os';
+import fs from 'fs';
+import crypto from 'crypto';
+import axios from 'axios';
+import { ethers } from 'ethers';
 import {
   buyProductWithCrypto,
   buyAmazonProductWithCrypto,
   ShippingAddress,
+  OrderOptions,
+  OrderLineItem,
+  OrderQuoteSummary,
   getOrderStatus,
+  getOrderLineItems,
+  getProductReference,
   sourceRegistry,
-  waitForPaymentPreparation
+  quoteOrder,
+  summarizeOrderQuote,
+  payForOrder
 } from './index';
-import { processPayment, Order } from './payment';
+import {
+  AddressRequiredError,
+  ApiError,
+  InsufficientFundsError,
+  PollingTimeoutError,
+  ProductUnavailableError,
+  QuoteExpiredError,
+  RpcEndpointError,
+  SpendPolicyError,
+  TransactionRevertedError,
+  TransactionVerificationError,
+  UnsupportedChainError,
+  InvalidAddressError,
+  OrderCanceledError,
+  ApprovalRequiredError,
+  UnsupportedMarketplaceError,
+  PluginError,
+  WebhookVerificationError
+} from './errors';
+import {
+  ApprovalStatus,
+  approveOrder,
+  getApprovalRequest,
+  getPendingApprovalQuote,
+  listApprovalRequests,
+  rejectOrder,
+  requestApproval
+} from './approvals';
+import { getOrderRecord, listOrderRecords, OrderRecord, OrderRefund } from './order-history';
+import { applyOrderStatus, CommandOutput, describeError } from './output';
+import { OrderWatchEvent, watchOrder } from './watcher';
+import {
+  createWebhookServer,
+  DEFAULT_WEBHOOK_PATH,
+  DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  signWebhookPayload
+} from './webhooks';
+import { getWalletBalances } from './wallet';
+import { CHAINS, getExplorerTransactionUrl, listChains } from './chains';
+import {
+  createSigner,
+  getSolanaKeypairPath,
+  hasSignerOption,
+  PaymentSigner,
+  resolveSignerConfig,
+  SignerLike,
+  SignerOptions
+} from './signers';
+import { SolanaKeypair } from './solana';
+import { PaymentReceipt } from './payment';
+import { ensureOrderPayer, findPoolPayer, loadWalletPool, selectPayer, SelectedPayer, WalletPool } from './wallet-pool';
+import {
+  AddressProfile,
+  formatShippingAddress,
+  getAddressProfile,
+  listAddressProfiles,
+  loadAddressBook,
+  removeAddressProfile,
+  resolveAddressProfile,
+  saveAddressProfile,
+  setDefaultAddressProfile
+} from './address-book';
+import { findCountryRules, isPoBox, listSupportedCountries, normalizeState, validateShippingAddress } from './address-validation';
+import { loadPlugins } from './plugins';
+import { cancelOrder, checkAwaitedRefunds, checkOrderRefund, watchOrderRefund } from './refunds';
+import { formatLineItemDelivery, getLineItemDeliveries, LineItemDelivery } from './tracking';
 
 dotenv.config();
 
 const program = new Command();
 
-program
-  .name('crypto-physical-buyer')
-  .description('Buy physical products using cryptocurrency via Crossmint')
-  .version('1.0.0');
+// Prompts write to stderr in --json mode so stdout only carries the JSON document
+let prompt: inquirer.PromptModule = inquirer.prompt;
 
-program
-  .command('buy')
-  .description('Buy a physical product using cryptocurrency')
-  .option('-s, --source <source>', 'Product source (e.g., amazon)', 'amazon')
-  .option('-u, --url <url>', 'Product URL')
-  .option('-i, --id <id>', 'Product ID (e.g., ASIN for Amazon)')
-  .option('-k, --api-key <key>', 'Crossmint API key')
-  .option('-e, --email <email>', 'Buyer email address')
-  .option('-p, --private-key <key>', 'Private key for transaction signing')
-  .option('-c, --chain <chain>', 'Blockchain network for transaction (polygon, polygon-amoy, base, base-sepolia)')
-  .option('--address-name <name>', 'Shipping address name')
-  .option('--address-line1 <line1>', 'Shipping address line 1')
-  .option('--address-line2 <line2>', 'Shipping address line 2')
-  .option('--address-city <city>', 'Shipping address city')
-  .option('--address-state <state>', 'Shipping address state')
-  .option('--address-postal-code <code>', 'Shipping address postal code')
-  .option('--address-country <country>', 'Shipping address country')
-  .action(async (options) => {
-    try {
-      // Validate input
-      if (!options.url && !options.id) {
-        console.error('Error: Either --url or --id must be provided');
-        process.exit(1);
-      }
-      
-      if (options.url && options.id) {
-        console.error('Error: Only one of --url or --id should be provided');
-        process.exit(1);
-      }
-      
-      // Get API key from options or environment variable
-      const apiKey = options.apiKey || process.env.CROSSMINT_API_KEY;
-      if (!apiKey) {
-        console.error('Error: API key must be provided via --api-key option or CROSSMINT_API_KEY environment variable');
-        process.exit(1);
-      }
-      
-      // Get source from options
-      const source = options.source || 'amazon';
-      const productSource = sourceRegistry.getSource(source);
-      if (!productSource) {
-        console.error(`Error: Unsupported product source: ${source}`);
-        process.exit(1);
-      }
-      
-      // Validate chain if provided
-      if (options.chain) {
-        const supportedChains = ['polygon', 'polygon-amoy', 'base', 'base-sepolia'];
-        if (!supportedChains.includes(options.chain)) {
-          console.error(`Error: Unsupported blockchain network: ${options.chain}. Supported networks are: ${supportedChains.join(', ')}`);
-          process.exit(1);
+// Structured result of the running command, printed on stdout with --json
+const commandOutput: CommandOutput = { command: '', ok: true };
+
+// Exit codes for each error type, documented in the README
+// Automation depends on these, so existing values must never change
+const EXIT_CODES = {
+  GENERAL_ERROR: 1,
+  INSUFFICIENT_FUNDS: 10,
+  ADDRESS_REQUIRED: 11,
+  PRODUCT_UNAVAILABLE: 12,
+  QUOTE_EXPIRED: 13,
+  SPEND_POLICY_VIOLATION: 14,
+  UNSUPPORTED_CHAIN: 15,
+  INVALID_ADDRESS: 16,
+  ORDER_CANCELED: 17,
+  APPROVAL_REQUIRED: 18,
+  UNSUPPORTED_MARKETPLACE: 19,
+  API_ERROR: 20,
+  RPC_UNAVAILABLE: 21,
+  TRANSACTION_REVERTED: 30,
+  POLLING_TIMEOUT: 31,
+  TRANSACTION_VERIFICATION_FAILED: 32,
+  WEBHOOK_VERIFICATION_FAILED: 33,
+  PLUGIN_ERROR: 40
+};
+
+/**
+ * Get the exit code for an error
+ */
+function getExitCode(error: unknown): number {
+  if (error instanceof InsufficientFundsError) {
+    return EXIT_CODES.INSUFFICIENT_FUNDS;
+  } else if (error instanceof AddressRequiredError) {
+    return EXIT_CODES.ADDRESS_REQUIRED;
+  } else if (error instanceof UnsupportedMarketplaceError) {
+    // Checked before ProductUnavailableError, which it extends
+    return EXIT_CODES.UNSUPPORTED_MARKETPLACE;
+  } else if (error instanceof ProductUnavailableError) {
+    return EXIT_CODES.PRODUCT_UNAVAILABLE;
+  } else if (error instanceof QuoteExpiredError) {
+    return EXIT_CODES.QUOTE_EXPIRED;
+  } else if (error instanceof SpendPolicyError) {
+    return EXIT_CODES.SPEND_POLICY_VIOLATION;
+  } else if (error instanceof UnsupportedChainError) {
+    return EXIT_CODES.UNSUPPORTED_CHAIN;
+  } else if (error instanceof InvalidAddressError) {
+    return EXIT_CODES.INVALID_ADDRESS;
+  } else if (error instanceof OrderCanceledError) {
+    return EXIT_CODES.ORDER_CANCELED;
+  } else if (error instanceof ApprovalRequiredError) {
+    return EXIT_CODES.APPROVAL_REQUIRED;
+  } else if (error instanceof ApiError) {
+    return EXIT_CODES.API_ERROR;
+  } else if (error instanceof RpcEndpointError) {
+    return EXIT_CODES.RPC_UNAVAILABLE;
+  } else if (error instanceof TransactionRevertedError) {
+    return EXIT_CODES.TRANSACTION_REVERTED;
+  } else if (error instanceof PollingTimeoutError) {
+    return EXIT_CODES.POLLING_TIMEOUT;
+  } else if (error instanceof TransactionVerificationError) {
+    return EXIT_CODES.TRANSACTION_VERIFICATION_FAILED;
+  } else if (error instanceof WebhookVerificationError) {
+    return EXIT_CODES.WEBHOOK_VERIFICATION_FAILED;
+  } else if (error instanceof PluginError) {
+    return EXIT_CODES.PLUGIN_ERROR;
+  }
+  return EXIT_CODES.GENERAL_ERROR;
+}
+
+/**
+ * Print an error and exit with the code matching its type
+ */
+function exitWithError(error: unknown): never {
+  const exitCode = getExitCode(error);
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  
+  if (isJsonMode()) {
+    commandOutput.ok = false;
+    commandOutput.error = describeError(error, exitCode);
+    printCommandOutput();
+  }
+  process.exit(exitCode);
+}
+
+/**
+ * Check whether the --json flag was passed
+ */
+function isJsonMode(): boolean {
+  return Boolean(program.opts().json);
+}
+
+/**
+ * Print the command output as a single JSON document on stdout
+ */
+function printCommandOutput(): void {
+  process.stdout.write(`${JSON.stringify(commandOutput, null, 2)}\n`);
+}
+
+// Cart items in the order they appear on the command line, so each --qty applies to the item before it
+const cartItems: Array<{ productIdentifier: string; isUrl: boolean; quantity?: number }> = [];
+
+function collectCartItem(isUrl: boolean) {
+  return (value: string, previous: string[] = []): string[] => {
+    cartItems.push({ productIdentifier: value, isUrl });
+    return [...previous, value];
+  };
+}
+
+function parseQuantity(value: string): number {
+  const quantity = Number(value);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new InvalidArgumentError('Quantity must be a positive integer.');
+  }
+  
+  const lastItem = cartItems[cartItems.length - 1];
+  if (!lastItem) {
+    throw new InvalidArgumentError('--qty must follow the --url or --id it applies to.');
+  }
+  if (lastItem.quantity !== undefined) {
+    throw new InvalidArgumentError(`Quantity for ${lastItem.productIdentifier} was already set.`);
+  }
+  
+  lastItem.quantity = quantity;
+  return quantity;
+}
+
+/**
+ * Collect the values of a repeatable option
+ */
+function collectValue(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Add the product, recipient, signer and chain options shared by commands that create orders
+ */
+function addOrderOptions(command: Command): Command {
+  return addAddressOptions(
+    addSignerOptions(
+      command
+        .option('-s, --source <source>', 'Product source (e.g., amazon, shopify) (default: detected from --url, amazon for --id)')
+        .option('-u, --url <url>', 'Product URL (repeatable)', collectCartItem(true))
+        .option('-i, --id <id>', 'Product ID, e.g., ASIN for Amazon (repeatable)', collectCartItem(false))
+        .option('-q, --qty <quantity>', 'Quantity of the preceding --url or --id (default: 1)', parseQuantity)
+        .option('-k, --api-key <key>', 'Crossmint API key')
+        .option('-e, --email <email>', 'Buyer email address (default: the address profile\'s email)')
+    )
+      .option('-c, --chain <chain>', `Blockchain network for transaction (${listChains().join(', ')})`)
+      .option('--ship-to <profile>', 'Saved address profile to ship to (default: the default profile)')
+  );
+}
+
+/**
+ * Add the --address-* options that spell out a shipping address
+ */
+function addAddressOptions(command: Command): Command {
+  return command
+    .option('--address-name <name>', 'Shipping address name')
+    .option('--address-line1 <line1>', 'Shipping address line 1')
+    .option('--address-line2 <line2>', 'Shipping address line 2')
+    .option('--address-city <city>', 'Shipping address city')
+    .option('--address-state <state>', 'Shipping address state')
+    .option('--address-postal-code <code>', 'Shipping address postal code')
+    .option('--address-country <country>', 'Shipping address country');
+}
+
+/**
+ * Add the options that choose the transaction signer
+ */
+function addSignerOptions(command: Command): Command {
+  return command
+    .option('-p, --private-key <key>', 'Private key for transaction signing (ends up in shell history, prefer --keystore)')
+    .option('--keystore <file>', 'Encrypted JSON keystore file of the signer')
+    .option('--passphrase-file <file>', 'File with the keystore passphrase (default: prompt)')
+    .option('--mnemonic-file <file>', 'File with the BIP-39 mnemonic of the signer')
+    .option('--derivation-path <path>', `Derivation path used with the mnemonic (default: ${ethers.utils.defaultPath})`)
+    .option('--remote-signer <url>', 'JSON-RPC URL of a remote signer')
+    .option('--signer-address <address>', 'Account of the remote signer (default: its first account)')
+    .option('--solana-keypair <file>', 'Keypair file paying for orders on Solana');
+}
+
+// Every way to configure a signer, for error messages
+const SIGNER_SOURCES =
+  '--private-key, --keystore, --mnemonic-file, --remote-signer or the PRIVATE_KEY, KEYSTORE_FILE, MNEMONIC or REMOTE_SIGNER_URL environment variable';
+const SOLANA_SIGNER_SOURCES = '--solana-keypair or the SOLANA_KEYPAIR_FILE environment variable';
+
+/**
+ * Check whether a chain is a Solana cluster
+ */
+function isSolanaChain(chain?: string): boolean {
+  return chain !== undefined && CHAINS[chain]?.family === 'solana';
+}
+
+/**
+ * Ask for the passphrase of a keystore file
+ */
+async function promptKeystorePassphrase(keystorePath: string): Promise<string> {
+  const answer = await prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      mask: '*',
+      message: `Passphrase for ${keystorePath}:`
+    }
+  ]);
+  return answer.passphrase;
+}
+
+/**
+ * Create the signer chosen by the command line options or the environment
+ * Solana chains use the Solana keypair, every other chain the EVM signer
+ * @returns Signer, or undefined if none is configured
+ */
+async function getCommandSigner(options: SignerOptions, chain?: string): Promise<PaymentSigner | undefined> {
+  if (isSolanaChain(chain)) {
+    const keypairPath = getSolanaKeypairPath(options);
+    return keypairPath ? SolanaKeypair.fromFile(keypairPath) : undefined;
+  }
+
+  const config = resolveSignerConfig(options);
+  return config ? createSigner(config, promptKeystorePassphrase) : undefined;
+}
+
+/**
+ * Exit if a --chain value is not in the chain registry
+ */
+function validateChainOption(chain?: string): void {
+  if (chain && !CHAINS[chain]) {
+    exitWithError(new Error(`Unsupported blockchain network: ${chain}. Supported networks are: ${listChains().join(', ')}`));
+  }
+}
+
+/**
+ * Record a payment receipt and its block explorer link in the command output
+ */
+function setReceiptOutput(receipt: PaymentReceipt): void {
+  commandOutput.transactionHash = receipt.transactionHash;
+  commandOutput.blockNumber = receipt.blockNumber;
+  commandOutput.explorerUrl = receipt.explorerUrl;
+}
+
+/**
+ * Get the API key from options or environment variable, exiting if missing
+ */
+function getApiKey(options: { apiKey?: string }): string {
+  const apiKey = options.apiKey || process.env.CROSSMINT_API_KEY;
+  if (!apiKey) {
+    exitWithError(new Error('API key must be provided via --api-key option or CROSSMINT_API_KEY environment variable'));
+  }
+  return apiKey;
+}
+
+/**
+ * Ask for a shipping address, checking each field against the rules of the chosen country
+ */
+async function promptShippingAddress(): Promise<ShippingAddress> {
+  const countries = listSupportedCountries();
+  const answers = await prompt([
+    {
+      type: 'input',
+      name: 'country',
+      message: `Country (${countries.join(', ')}):`,
+      default: countries[0],
+      validate: (input) => findCountryRules(input) ? true : `Supported countries are: ${countries.join(', ')}`,
+      filter: (input) => findCountryRules(input)?.code || input
+    },
+    {
+      type: 'input',
+      name: 'name',
+      message: 'Full name:',
+      validate: (input) => input.trim() !== '' ? true : 'Name is required'
+    },
+    {
+      type: 'input',
+      name: 'line1',
+      message: 'Address line 1:',
+      validate: (input, answers) => {
+        if (input.trim() === '') {
+          return 'Address line 1 is required';
         }
+        const rules = findCountryRules(answers.country)?.rules;
+        return rules && !rules.allowPoBox && isPoBox(input) ? `Orders to ${rules.name} cannot ship to PO boxes` : true;
       }
-      
-      // Get private key from options or environment variable
-      const privateKey = options.privateKey || process.env.PRIVATE_KEY;
-      if (privateKey) {
-        // Store private key in environment for use in the payment process
-        process.env.PRIVATE_KEY = privateKey;
-      }
-      
-      // Determine product identifier and type
-      let productIdentifier: string;
-      let isUrl: boolean;
-      
-      if (options.url) {
-        productIdentifier = options.url;
-        isUrl = true;
-      } else {
-        productIdentifier = options.id;
-        isUrl = false;
+    },
+    {
+      type: 'input',
+      name: 'line2',
+      message: 'Address line 2 (optional):'
+    },
+    {
+      type: 'input',
+      name: 'city',
+      message: 'City:',
+      validate: (input) => input.trim() !== '' ? true : 'City is required'
+    },
+    {
+      type: 'input',
+      name: 'state',
+      message: 'State or region:',
+      validate: (input, answers) => {
+        const rules = findCountryRules(answers.country)?.rules;
+        if (input.trim() === '') {
+          return 'State is required';
+        }
+        return !rules || normalizeState(input, rules) ? true : `Not a ${rules.name} state or region code`;
       }
-      
-      // Validate the product identifier
-      if (!productSource.validateIdentifier(productIdentifier, isUrl)) {
-        console.error(`Error: Invalid product identifier for source ${source}: ${productIdentifier}`);
-        process.exit(1);
+    },
+    {
+      type: 'input',
+      name: 'postalCode',
+      message: 'Postal code:',
+      validate: (input, answers) => {
+        const rules = findCountryRules(answers.country)?.rules;
+        if (!rules) {
+          return input.trim() !== '' ? true : 'Postal code is required';
+        }
+        const postalCode = input.trim().toUpperCase();
+        const normalized = rules.postalCode.normalize?.(postalCode) ?? postalCode;
+        return rules.postalCode.pattern.test(normalized) ? true : `Postal code must look like ${rules.postalCode.example}`;
       }
-      
-      // Extract product ID from URL if needed
-      let productId = '';
-      if (isUrl) {
-        productId = productSource.extractProductId(productIdentifier) || '';
-      } else {
-        productId = productIdentifier;
+    }
+  ]);
+  
+  const shippingAddress: ShippingAddress = {
+    name: answers.name,
+    line1: answers.line1,
+    city: answers.city,
+    state: answers.state,
+    postalCode: answers.postalCode,
+    country: answers.country
+  };
+  if (answers.line2) {
+    shippingAddress.line2 = answers.line2;
+  }
+  return shippingAddress;
+}
+
+/**
+ * Validate the order options and collect everything needed to create an order, prompting for missing details
+ */
+async function getOrderOptions(options: any): Promise<OrderOptions> {
+  // Validate input
+  if (cartItems.length === 0) {
+    exitWithError(new Error('At least one --url or --id must be provided'));
+  }
+  
+  const apiKey = getApiKey(options);
+  
+  // Validate source if provided; without one, URLs name their source and product IDs are Amazon ASINs
+  if (options.source && !sourceRegistry.getSource(options.source)) {
+    exitWithError(new Error(`Unsupported product source: ${options.source}`));
+  }
+  
+  // Validate chain if provided
+  validateChainOption(options.chain);
+  
+  // Build and validate the line items
+  const lineItems: OrderLineItem[] = [];
+  for (const item of cartItems) {
+    let productSource = sourceRegistry.getSource(options.source || 'amazon');
+    if (!options.source && item.isUrl) {
+      try {
+        productSource = sourceRegistry.resolveUrl(item.productIdentifier);
+      } catch (error) {
+        exitWithError(error);
       }
-      
-      // Check if shipping address is complete
-      const hasPartialAddress = options.addressName || options.addressLine1 || options.addressCity || 
-                               options.addressState || options.addressPostalCode || options.addressCountry;
-      
-      const hasCompleteAddress = options.addressName && options.addressLine1 && options.addressCity && 
-                                options.addressState && options.addressPostalCode && options.addressCountry;
-      
-      if (hasPartialAddress && !hasCompleteAddress) {
-        console.error('Error: Shipping address is incomplete. Please provide all required fields.');
-        process.exit(1);
+    }
+    if (!productSource) {
+      exitWithError(new Error(`Unsupported product source: ${options.source || 'amazon'}`));
+    }
+    const source = productSource.name;
+    
+    if (!productSource.validateIdentifier(item.productIdentifier, item.isUrl)) {
+      exitWithError(new Error(`Invalid product identifier for source ${source}: ${item.productIdentifier}`));
+    }
+    
+    // Valid identifiers can still name products the source cannot buy, e.g. on another Amazon marketplace
+    try {
+      productSource.createProductLocator(item.productIdentifier, item.isUrl);
+    } catch (error) {
+      exitWithError(error);
+    }
+    
+    lineItems.push({ source, ...item });
+  }
+  
+  // Check if shipping address is complete
+  const hasPartialAddress = options.addressName || options.addressLine1 || options.addressCity || 
+                           options.addressState || options.addressPostalCode || options.addressCountry;
+  
+  const hasCompleteAddress = options.addressName && options.addressLine1 && options.addressCity && 
+                            options.addressState && options.addressPostalCode && options.addressCountry;
+  
+  if (hasPartialAddress && !hasCompleteAddress) {
+    exitWithError(new Error('Shipping address is incomplete. Please provide all required fields.'));
+  }
+  if (hasPartialAddress && options.shipTo) {
+    exitWithError(new Error('Use either --ship-to or the --address-* options, not both'));
+  }
+  
+  // Without --address-* options, ship to the named profile or the default profile
+  let profile: AddressProfile | undefined;
+  if (!hasPartialAddress) {
+    try {
+      profile = resolveAddressProfile(options.shipTo);
+    } catch (error) {
+      exitWithError(error);
+    }
+  }
+  
+  // Create shipping address object if available
+  let shippingAddress: ShippingAddress | undefined;
+  
+  if (hasCompleteAddress) {
+    shippingAddress = {
+      name: options.addressName,
+      line1: options.addressLine1,
+      line2: options.addressLine2,
+      city: options.addressCity,
+      state: options.addressState,
+      postalCode: options.addressPostalCode,
+      country: options.addressCountry
+    };
+  } else if (profile) {
+    shippingAddress = profile.address;
+    console.log(`Shipping to ${profile.name}: ${formatShippingAddress(profile.address)}`);
+  } else {
+    // Prompt for shipping address if not provided
+    const addressPrompt = await prompt([
+      {
+        type: 'confirm',
+        name: 'provideAddress',
+        message: 'Would you like to provide a shipping address now?',
+        default: true
       }
-      
-      // Create shipping address object if available
-      let shippingAddress: ShippingAddress | undefined;
-      
-      if (hasCompleteAddress) {
-        shippingAddress = {
-          name: options.addressName,
-          line1: options.addressLine1,
-          line2: options.addressLine2,
-          city: options.addressCity,
-          state: options.addressState,
-          postalCode: options.addressPostalCode,
-          country: options.addressCountry
-        };
-      } else {
-        // Prompt for shipping address if not provided
-        const addressPrompt = await inquirer.prompt([
-          {
-            type: 'confirm',
-            name: 'provideAddress',
-            message: 'Would you like to provide a shipping address now?',
-            default: true
-          }
-        ]);
-        
-        if (addressPrompt.provideAddress) {
-          const addressDetails = await inquirer.prompt([
-            {
-              type: 'input',
-              name: 'name',
-              message: 'Full name:',
-              validate: (input) => input.trim() !== '' ? true : 'Name is required'
-            },
-            {
-              type: 'input',
-              name: 'line1',
-              message: 'Address line 1:',
-              validate: (input) => input.trim() !== '' ? true : 'Address line 1 is required'
-            },
-            {
-              type: 'input',
-              name: 'line2',
-              message: 'Address line 2 (optional):'
-            },
-            {
-              type: 'input',
-              name: 'city',
-              message: 'City:',
-              validate: (input) => input.trim() !== '' ? true : 'City is required'
-            },
-            {
-              type: 'input',
-              name: 'state',
-              message: 'State (for US addresses):',
-              validate: (input) => input.trim() !== '' ? true : 'State is required'
-            },
-            {
-              type: 'input',
-              name: 'postalCode',
-              message: 'Postal code:',
-              validate: (input) => input.trim() !== '' ? true : 'Postal code is required'
-            },
-            {
-              type: 'input',
-              name: 'country',
-              message: 'Country (currently only US is supported):',
-              default: 'US',
-              validate: (input) => input.trim() === 'US' ? true : 'Currently only US is supported'
-            }
-          ]);
-          
-          shippingAddress = {
-            name: addressDetails.name,
-            line1: addressDetails.line1,
-            city: addressDetails.city,
-            state: addressDetails.state,
-            postalCode: addressDetails.postalCode,
-            country: addressDetails.country
-          };
-          
-          if (addressDetails.line2) {
-            shippingAddress.line2 = addressDetails.line2;
-          }
+    ]);
+    
+    if (addressPrompt.provideAddress) {
+      shippingAddress = await promptShippingAddress();
+    }
+  }
+  
+  // Reject malformed addresses before an order is created
+  if (shippingAddress) {
+    try {
+      shippingAddress = validateShippingAddress(shippingAddress);
+    } catch (error) {
+      exitWithError(error);
+    }
+  }
+  
+  // Get email
+  let email = options.email || profile?.email;
+  
+  // Prompt for email if not provided
+  if (!email) {
+    const emailPrompt = await prompt([
+      {
+        type: 'input',
+        name: 'email',
+        message: 'Email address for order confirmation:',
+        validate: (input) => {
+          const valid = /\S+@\S+\.\S+/.test(input);
+          return valid ? true : 'Please enter a valid email address';
         }
       }
+    ]);
+    email = emailPrompt.email;
+  }
+  
+  return {
+    lineItems,
+    apiKey,
+    email,
+    shippingAddress,
+    chain: options.chain
+  };
+}
+
+/**
+ * Print a quote summary
+ */
+function printQuote(quote: OrderQuoteSummary): void {
+  console.log('\nQuote:');
+  quote.lineItems.forEach((lineItem, index) => {
+    console.log(`\nItem ${index + 1}: ${lineItem.name || 'Name not available'}`);
+    if (lineItem.description) {
+      console.log(`  Description: ${lineItem.description}`);
+    }
+    if (lineItem.imageUrl) {
+      console.log(`  Image: ${lineItem.imageUrl}`);
+    }
+    if (lineItem.quantity !== undefined) {
+      console.log(`  Quantity: ${lineItem.quantity}`);
+    }
+    if (lineItem.unitPrice) {
+      console.log(`  Unit price: ${lineItem.unitPrice.amount} ${lineItem.unitPrice.currency}`);
+    }
+  });
+  
+  const totalPrice = quote.totalPrice ? `${quote.totalPrice.amount} ${quote.totalPrice.currency}` : 'not available';
+  console.log(`\nQuote status: ${quote.status}`);
+  console.log(`Total price: ${totalPrice}`);
+  console.log(`Currency: ${quote.currency}`);
+  console.log(`Chain: ${quote.chain}`);
+  console.log(`Quoted at: ${quote.quotedAt || 'not available'}`);
+  console.log(`Expires at: ${quote.expiresAt || 'not available'}`);
+  console.log(`Order ID: ${quote.orderId}`);
+}
+
+/**
+ * Print the summary of a paid order, built from its latest status response
+ */
+function printOrderSummary(quote: OrderQuoteSummary, paymentStatus: string, email: string, shippingAddress?: ShippingAddress): void {
+  console.log('\n\n========================================');
+  console.log('Order Details:');
+  quote.lineItems.forEach((lineItem, index) => {
+    const quantity = lineItem.quantity !== undefined ? ` x${lineItem.quantity}` : '';
+    const price = lineItem.totalPrice || lineItem.unitPrice;
+    console.log(`Item ${index + 1}: ${lineItem.name || 'Name not available'}${quantity}${price ? `, ${price.amount} ${price.currency}` : ''}`);
+  });
+  console.log(`Total Price: ${quote.totalPrice ? `${quote.totalPrice.amount} ${quote.totalPrice.currency}` : 'not available'}`);
+  console.log(`Recipient: ${shippingAddress?.name || 'Name not available'} (${email})`);
+  console.log(`Shipping Address: ${shippingAddress ? formatShippingAddress(shippingAddress) : 'Address not available'}`);
+  console.log(`Order ID: ${quote.orderId}`);
+  console.log(`Payment Status: ${paymentStatus === 'completed' ? 'Completed' : paymentStatus}`);
+  console.log(`\nA confirmation email with the order details will be sent to ${email}.`);
+  console.log('========================================\n');
+}
+
+/**
+ * Parse a date option, exiting if it is invalid
+ */
+function parseDateOption(value: string | undefined, optionName: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+  
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    exitWithError(new Error(`Invalid date for ${optionName}: ${value}`));
+  }
+  return date;
+}
+
+/**
+ * Format the total price of a stored order
+ */
+function formatRecordPrice(record: OrderRecord): string {
+  return record.totalPrice ? `${record.totalPrice.amount} ${record.totalPrice.currency}` : 'price not available';
+}
+
+/**
+ * Format the refund of a stored order, e.g. "9.79 usdc on base, transaction 0x..."
+ */
+function formatRefund(refund: OrderRefund): string {
+  return `${refund.amount} ${refund.currency} on ${refund.chain}, transaction ${refund.transactionHash || 'not available'}`;
+}
+
+/**
+ * Print the delivery of each line item of an order
+ */
+function logDeliveries(deliveries: LineItemDelivery[], prefix: string = ''): void {
+  for (const delivery of deliveries) {
+    console.log(`${prefix}${formatLineItemDelivery(delivery)}`);
+    if (delivery.trackingUrl) {
+      console.log(`   Tracking: ${delivery.trackingUrl}`);
+    }
+    if (delivery.recipient) {
+      console.log(`   Recipient: ${delivery.recipient}`);
+    }
+  }
+}
+
+/**
+ * Handle an order change the same way whether it was seen while polling or received as a webhook
+ * The order history, refunds included, is updated as each status response arrives; this reports the change, with the
+ * delivery details of the line item it concerns, and points to refund tracking when the delivery of a paid order failed
+ */
+function handleOrderEvent(event: OrderWatchEvent): void {
+  if (event.type === 'phase-changed') {
+    console.log(`Order ${event.orderId} phase: ${event.phase}`);
+  } else if (event.type === 'payment-status-changed') {
+    console.log(`Order ${event.orderId} payment status: ${event.paymentStatus}`);
+  } else if (event.type === 'delivery-status-changed' || event.type === 'delivery-tracking-changed') {
+    const delivery = getLineItemDeliveries(event.status, getOrderRecord(event.orderId))[event.lineItemIndex];
+    logDeliveries([delivery], `Order ${event.orderId} item `);
+  } else if (event.type === 'terminal') {
+    console.log(`Order ${event.orderId} reached terminal state: ${event.state}`);
+    if (event.state === 'delivery-failed' && getOrderRecord(event.orderId)?.awaitingRefundSince) {
+      console.log(`Order ${event.orderId} is awaiting its refund. Track it with: refunds check ${event.orderId}`);
+    }
+  }
+}
+
+/**
+ * Get the webhook signing secret from options or environment variables
+ */
+function getWebhookSecret(options: { secret?: string }): string {
+  const secret = options.secret || process.env.CROSSMINT_WEBHOOK_SECRET;
+  if (!secret) {
+    exitWithError(new Error('Webhook secret must be provided via --secret option or CROSSMINT_WEBHOOK_SECRET environment variable'));
+  }
+  return secret;
+}
+
+/**
+ * Pick the paying wallet and chain from the wallet pool, unless a signer was passed explicitly
+ * Without a pool, the signer from the command line or the environment pays
+ * @param orderOptions Order options, updated with the chosen chain and payer address, or the signer
+ * @param options Command options
+ * @returns Wallet pool and chosen payer, or undefined if no pool is configured
+ */
+async function applyWalletPool(
+  orderOptions: OrderOptions,
+  options: SignerOptions & { chain?: string }
+): Promise<{ pool: WalletPool; payer: SelectedPayer } | undefined> {
+  // The pool holds EVM wallets only
+  const pool = hasSignerOption(options) || isSolanaChain(options.chain) ? null : loadWalletPool();
+  if (!pool) {
+    orderOptions.signer = await getCommandSigner(options, options.chain);
+    return undefined;
+  }
+  
+  const payer = await selectPayer(pool, { chain: options.chain });
+  orderOptions.chain = payer.chain;
+  orderOptions.payerAddress = payer.address;
+  console.log(`Paying from pool wallet ${payer.name} (${payer.address}) on ${payer.chain}`);
+  
+  return { pool, payer };
+}
+
+/**
+ * Record the wallet that pays for an order in the command output
+ */
+function setPayerOutput(payer: { name?: string; address: string; chain: string }): void {
+  commandOutput.payer = { name: payer.name, address: payer.address, chain: payer.chain };
+}
+
+/**
+ * Get the signer to pay for an existing order: a signer from the command line, then the pool wallet the order was
+ * created with, then the signer from the environment
+ */
+async function getOrderSigner(orderId: string, options: SignerOptions): Promise<SignerLike> {
+  const record = getOrderRecord(orderId);
+  const pool = hasSignerOption(options) || isSolanaChain(record?.chain) ? null : loadWalletPool();
+  const poolPayer = pool && record?.payerAddress ? findPoolPayer(pool, record.payerAddress, record.chain) : undefined;
+  if (poolPayer) {
+    console.log(`Paying from pool wallet ${poolPayer.name} (${poolPayer.address})`);
+    setPayerOutput(poolPayer);
+    return poolPayer.privateKey;
+  }
+  
+  const signer = await getCommandSigner(options, record?.chain);
+  if (!signer) {
+    exitWithError(
+      new Error(
+        isSolanaChain(record?.chain)
+          ? `A signer must be provided via ${SOLANA_SIGNER_SOURCES}`
+          : `A signer must be provided via the wallet pool, ${SIGNER_SOURCES}`
+      )
+    );
+  }
+  return signer;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new InvalidArgumentError('Port must be an integer between 0 and 65535.');
+  }
+  return port;
+}
+
+function parseSeconds(value: string): number {
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new InvalidArgumentError('Seconds must be a positive integer.');
+  }
+  return seconds;
+}
+
+program
+  .name('crypto-physical-buyer')
+  .description('Buy physical products using cryptocurrency via Crossmint')
+  .version('1.0.0')
+  .option('--json', 'Print one JSON document with the result on stdout and send progress messages to stderr')
+  .option('--plugin <module>', 'Load product sources from a local module or npm package (repeatable)', collectValue, [])
+  .hook('preAction', (_thisCommand, actionCommand) => {
+    // Use the full command path, e.g. "orders list"
+    const names: string[] = [];
+    for (let command: Command | null = actionCommand; command && command !== program; command = command.parent) {
+      names.unshift(command.name());
+    }
+    commandOutput.command = names.join(' ');
+    
+    if (isJsonMode()) {
+      console.log = console.error;
+      prompt = inquirer.createPromptModule({ output: process.stderr });
+    }
+    
+    // Register third-party product sources before any command looks one up
+    try {
+      loadPlugins(program.opts().plugin);
+    } catch (error) {
+      exitWithError(error);
+    }
+  })
+  .hook('postAction', () => {
+    if (isJsonMode()) {
+      printCommandOutput();
+    }
+  });
+
+addOrderOptions(
+  program
+    .command('buy')
+    .description('Buy one or more physical products using cryptocurrency')
+)
+  .option('--require-approval', 'Quote the order and park it for human approval instead of paying (or set REQUIRE_APPROVAL=true)')
+  .action(async (options) => {
+    try {
+      const orderOptions = await getOrderOptions(options);
+      const { apiKey, email, shippingAddress } = orderOptions;
+      const lineItems = getOrderLineItems(orderOptions);
+      const sources = Array.from(new Set(lineItems.map(lineItem => lineItem.source)));
+      const walletPool = await applyWalletPool(orderOptions, options);
       
-      // Get email
-      let email = options.email;
-      
-      // Prompt for email if not provided
-      if (!email) {
-        const emailPrompt = await inquirer.prompt([
-          {
-            type: 'input',
-            name: 'email',
-            message: 'Email address for order confirmation:',
-            validate: (input) => {
-              const valid = /\S+@\S+\.\S+/.test(input);
-              return valid ? true : 'Please enter a valid email address';
-            }
-          }
-        ]);
-        email = emailPrompt.email;
+      // Park the order for approval instead of signing when approval is required
+      if (options.requireApproval || process.env.REQUIRE_APPROVAL === 'true') {
+        console.log('Requesting quote for approval...');
+        const approvalRequest = await requestApproval(orderOptions);
+        commandOutput.orderId = approvalRequest.orderId;
+        commandOutput.quote = approvalRequest.quote;
+        commandOutput.lineItems = approvalRequest.quote.lineItems;
+        commandOutput.approval = approvalRequest;
+        printQuote(approvalRequest.quote);
+        console.log(`\nOrder ${approvalRequest.orderId} is pending approval.`);
+        console.log(`To approve it, run: approve ${approvalRequest.orderId}`);
+        console.log(`To reject it, run: reject ${approvalRequest.orderId}`);
+        return;
       }
       
       // Execute purchase
-      console.log(`Initiating ${source.charAt(0).toUpperCase() + source.slice(1)} purchase with crypto...`);
-      const result = await buyProductWithCrypto({
-        source,
-        productIdentifier,
-        isUrl,
-        apiKey,
-        email,
-        shippingAddress,
-        chain: options.chain
-      });
+      const itemCount = lineItems.reduce((total, item) => total + (item.quantity || 1), 0);
+      const sourceNames = sources.map(source => source.charAt(0).toUpperCase() + source.slice(1)).join(' and ');
+      console.log(`Initiating ${sourceNames} purchase of ${itemCount} item(s) with crypto...`);
+      const result = await buyProductWithCrypto(orderOptions);
+      commandOutput.orderId = result.orderId;
       
       console.log(`Order created successfully!`);
       
@@ -243,25 +853,35 @@ program
       } else if (result.status === 'valid') {
         console.log('\nOrder is valid and ready for payment.');
         
-        // Check if we have a private key to process the payment
-        const privateKey = process.env.PRIVATE_KEY;
-        if (privateKey) {
+        // Check if we have a signer to process the payment
+        let signer: SignerLike | undefined = walletPool ? walletPool.payer.privateKey : orderOptions.signer;
+        if (signer) {
           try {
-            // Wait for payment preparation to become available
-            const paymentStatusResponse = await waitForPaymentPreparation(result.orderId, apiKey);
-            const orderWithPayment = paymentStatusResponse.order || paymentStatusResponse;
+            // The quote is known now, so make sure the pool wallet can cover it
+            if (walletPool) {
+              const payer = await ensureOrderPayer(result.orderId, apiKey, walletPool.pool, walletPool.payer, options.chain);
+              signer = payer.privateKey;
+              setPayerOutput(payer);
+            }
             
-            // Process the payment
-            console.log('Processing payment...');
-            await processPayment(orderWithPayment as Order, privateKey);
+            // Wait for payment preparation, re-check the quote and process the payment
+            const receipt = await payForOrder(result.orderId, apiKey, signer, {
+              products: lineItems.map(getProductReference)
+            });
+            setReceiptOutput(receipt);
             
             console.log('Payment processed successfully!');
+            if (commandOutput.payer) {
+              console.log(`Paid by wallet ${commandOutput.payer.name} (${commandOutput.payer.address}) on ${commandOutput.payer.chain}`);
+            }
           } catch (error) {
-            console.error(`Error processing payment: ${error instanceof Error ? error.message : String(error)}`);
-            console.log('You may need to complete the payment manually.');
+            if (!(error instanceof SpendPolicyError)) {
+              console.log('You may need to complete the payment manually.');
+            }
+            exitWithError(error);
           }
         } else {
-          console.log('No private key provided. Follow the instructions to complete the purchase manually.');
+          console.log('No signer configured. Follow the instructions to complete the purchase manually.');
         }
       }
       
@@ -269,98 +889,597 @@ program
       if (result.status === 'valid') {
         console.log('\nMonitoring order lifecycle...');
         
-        let currentPhase = 'created';
-        let currentPaymentStatus = 'unknown';
-        let attempts = 0;
-        const maxAttempts = 10;
-        
-        while (attempts < maxAttempts) {
-          attempts++;
-          
-          try {
-            const statusResponse = await getOrderStatus(result.orderId, apiKey);
-            
-            // Add null checks for the properties
-            const order = statusResponse.order || statusResponse;
-            const phase = order.phase || 'unknown';
-            const paymentStatus = order.payment?.status || 'unknown';
+        try {
+          const events = watchOrder(result.orderId, { apiKey, initialDelayMs: 5000, backoffFactor: 1, maxAttempts: 10 });
+          for await (const event of events) {
+            applyOrderStatus(commandOutput, event.status);
             
             // Only log when phase or payment status changes
-            if (phase !== currentPhase) {
-              console.log(`Order phase: ${phase}`);
-              currentPhase = phase;
+            if (event.type === 'phase-changed') {
+              console.log(`Order phase: ${event.phase}`);
+            } else if (event.type === 'payment-status-changed') {
+              console.log(`Payment status: ${event.paymentStatus}`);
             }
             
-            if (paymentStatus !== currentPaymentStatus) {
-              console.log(`Payment status: ${paymentStatus}`);
-              currentPaymentStatus = paymentStatus;
+            const order = event.status.order || event.status;
+            const paymentStatus = order.payment?.status || 'unknown';
+            
+            if (event.type === 'terminal' && event.state !== 'completed') {
+              console.log(`Order ended with state: ${event.state}`);
+              break;
             }
             
             // Stop polling if payment is completed or order is complete
-            if (paymentStatus === 'completed' || phase === 'complete') {
+            if (paymentStatus === 'completed' || event.type === 'terminal') {
               // Display detailed order summary
               try {
                 // Get the final order details
                 const finalOrderDetails = await getOrderStatus(result.orderId, apiKey);
                 
-                // Extract product name - for demo purposes, use a placeholder
-                // In a real implementation, we would extract this from the API response
-                const productName = "Amazon Product";
-                
-                // Extract price details
-                const orderData = finalOrderDetails.order || finalOrderDetails;
-                const totalPrice = orderData.quote?.totalPrice?.amount || '9.79';
-                const currency = orderData.quote?.totalPrice?.currency || 'USDC';
-                
-                // For demo purposes, use fixed values that match the example
-                // In a real implementation, we would calculate these from the API response
-                const subtotal = '8.99';
-                const tax = '0.80';
-                
-                // Shipping is typically free for these orders
-                const shipping = 'Free';
-                
-                // Extract recipient details - for demo purposes, use the shipping address from the order
-                // In a real implementation, we would extract this from the API response
-                let recipientName = shippingAddress?.name || 'Name not available';
-                let recipientEmail = email;
-                
-                // Format shipping address
-                let formattedAddress = 'Address not available';
-                if (shippingAddress) {
-                  formattedAddress = `${shippingAddress.line1}${shippingAddress.line2 ? ', ' + shippingAddress.line2 : ''}, ${shippingAddress.city}, ${shippingAddress.state} ${shippingAddress.postalCode}, ${shippingAddress.country}`;
-                }
-                
-                console.log('\n\n========================================');
-                console.log('Order Details:');
-                console.log(`Product: ${productName}`);
-                console.log(`Total Price: ${totalPrice} ${currency} (${subtotal} ${currency} + ${tax} ${currency} tax)`);
-                console.log(`Shipping: ${shipping}`);
-                console.log(`Recipient: ${recipientName}`);
-                console.log(`Shipping Address: ${formattedAddress}`);
-                console.log(`Order ID: ${result.orderId}`);
-                console.log(`Payment Status: ${paymentStatus === 'completed' ? 'Completed' : paymentStatus}`);
-                console.log(`\nA confirmation email with all the order details has been sent to ${recipientEmail}. Your item should arrive soon!`);
-                console.log('========================================\n');
+                printOrderSummary({ ...summarizeOrderQuote(finalOrderDetails), orderId: result.orderId }, paymentStatus, email, shippingAddress);
               } catch (error) {
                 console.error('Error retrieving final order details:', error);
               }
               
               break;
             }
-            
-            // Wait before checking again
-            await new Promise(resolve => setTimeout(resolve, 5000));
-          } catch (error) {
+          }
+        } catch (error) {
+          // Running out of attempts just ends monitoring, the order keeps progressing
+          if (!(error instanceof PollingTimeoutError)) {
             console.error(`Error checking order status: ${error instanceof Error ? error.message : String(error)}`);
-            break;
           }
         }
       }
       
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+addOrderOptions(
+  program
+    .command('quote')
+    .description('Price an order without paying for it')
+)
+  .action(async (options) => {
+    try {
+      const orderOptions = await getOrderOptions(options);
+      const walletPool = await applyWalletPool(orderOptions, options);
+      if (walletPool) {
+        setPayerOutput(walletPool.payer);
+      }
+      
+      console.log('Requesting quote...');
+      const quote = await quoteOrder(orderOptions);
+      commandOutput.orderId = quote.orderId;
+      commandOutput.quote = quote;
+      commandOutput.lineItems = quote.lineItems;
+      printQuote(quote);
+      
+      if (quote.status === 'requires-physical-address') {
+        console.log('\nThis order requires a shipping address before it can be paid.');
+      } else {
+        console.log(`\nTo pay for this quote, run: pay ${quote.orderId}`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addSignerOptions(
+  program
+    .command('pay <orderId>')
+    .description('Pay for a previously quoted order')
+    .option('-k, --api-key <key>', 'Crossmint API key')
+)
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      const signer = await getOrderSigner(orderId, options);
+      
+      // Use the products stored when the order was quoted for spend policy checks
+      const record = getOrderRecord(orderId);
+      commandOutput.orderId = orderId;
+      const receipt = await payForOrder(orderId, apiKey, signer, {
+        products: record?.lineItems.map(getProductReference)
+      });
+      setReceiptOutput(receipt);
+      console.log('Payment processed successfully!');
+      console.log(`Order ID: ${orderId}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addSignerOptions(
+  program
+    .command('approve <orderId>')
+    .description('Approve an order pending approval and pay for it')
+    .option('-k, --api-key <key>', 'Crossmint API key')
+)
+  .option('--by <name>', 'Name recorded as the approver (default: current user)')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      const signer = await getOrderSigner(orderId, options);
+      
+      // Show the full, current quote before anything is signed
+      const quote = await getPendingApprovalQuote(orderId, apiKey);
+      commandOutput.orderId = orderId;
+      commandOutput.quote = quote;
+      commandOutput.lineItems = quote.lineItems;
+      printQuote(quote);
+      
+      if (!options.yes) {
+        const confirmPrompt = await prompt([
+          {
+            type: 'confirm',
+            name: 'approve',
+            message: 'Approve this order and pay for it?',
+            default: false
+          }
+        ]);
+        if (!confirmPrompt.approve) {
+          console.log('Order was not approved.');
+          return;
+        }
+      }
+      
+      const approvedBy = options.by || os.userInfo().username;
+      const receipt = await approveOrder(orderId, apiKey, signer, approvedBy);
+      setReceiptOutput(receipt);
+      commandOutput.approval = getApprovalRequest(orderId);
+      console.log(`Order ${orderId} approved by ${approvedBy} and paid successfully!`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('reject <orderId>')
+  .description('Reject an order pending approval')
+  .option('-k, --api-key <key>', 'Crossmint API key')
+  .option('--by <name>', 'Name recorded as the rejecter (default: current user)')
+  .option('-r, --reason <reason>', 'Reason for the rejection')
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      
+      const quote = await getPendingApprovalQuote(orderId, apiKey);
+      commandOutput.orderId = orderId;
+      commandOutput.quote = quote;
+      commandOutput.lineItems = quote.lineItems;
+      printQuote(quote);
+      
+      const rejectedBy = options.by || os.userInfo().username;
+      commandOutput.approval = rejectOrder(orderId, rejectedBy, options.reason);
+      console.log(`\nOrder ${orderId} rejected by ${rejectedBy}.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('cancel <orderId>')
+  .description('Cancel an order that has not been paid, so it is never paid')
+  .option('-k, --api-key <key>', 'Crossmint API key')
+  .option('--by <name>', 'Name recorded when a pending approval is rejected (default: current user)')
+  .option('-r, --reason <reason>', 'Reason for the cancellation')
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      commandOutput.orderId = orderId;
+      
+      const record = await cancelOrder(orderId, apiKey, {
+        canceledBy: options.by || os.userInfo().username,
+        reason: options.reason
+      });
+      commandOutput.order = record;
+      console.log(`Order ${orderId} canceled at ${record.canceledAt}. This tool will not pay it.`);
+      console.log('Crossmint has no endpoint to cancel orders: it releases the unpaid order when its quote expires.');
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const refundsCommand = program
+  .command('refunds')
+  .description('Track refunds of paid orders whose delivery failed');
+
+refundsCommand
+  .command('check [orderId]')
+  .description(
+    'Check whether a paid order has been refunded, by its refund fields or a USDC transfer back to the payer. ' +
+    'Without an order ID, checks every order awaiting a refund'
+  )
+  .option('-k, --api-key <key>', 'Crossmint API key')
+  .option('-w, --watch', 'Keep checking until the refund arrives')
+  .option('--interval <seconds>', 'Seconds between checks with --watch', parseSeconds, 300)
+  .action(async (orderId: string | undefined, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      
+      if (!orderId) {
+        if (options.watch) {
+          exitWithError(new Error('--watch needs an order ID'));
+        }
+        const awaited = listOrderRecords({ status: 'awaiting-refund' });
+        const refunds = await checkAwaitedRefunds(apiKey);
+        commandOutput.orders = awaited.map(record => getOrderRecord(record.orderId) || record);
+        
+        if (awaited.length === 0) {
+          console.log('No orders are awaiting a refund.');
+        }
+        for (const record of awaited) {
+          const refund = refunds.get(record.orderId);
+          console.log(refund ? `Order ${record.orderId} was refunded: ${formatRefund(refund)}` : `Order ${record.orderId} has not been refunded yet.`);
+        }
+        return;
+      }
+      commandOutput.orderId = orderId;
+      
+      let refund: OrderRefund | undefined;
+      if (options.watch) {
+        // Ctrl+C stops watching without treating it as a failure
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.once('SIGINT', stop);
+        
+        try {
+          console.log(`Waiting for the refund of order ${orderId}. Press Ctrl+C to stop.`);
+          refund = await watchOrderRefund(orderId, { apiKey, pollIntervalMs: options.interval * 1000, signal: controller.signal });
+        } finally {
+          process.removeListener('SIGINT', stop);
+        }
+      } else {
+        refund = await checkOrderRefund(orderId, apiKey);
+      }
+      
+      commandOutput.order = getOrderRecord(orderId);
+      commandOutput.refund = refund;
+      console.log(refund ? `Order ${orderId} was refunded: ${formatRefund(refund)}` : `Order ${orderId} has not been refunded yet.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+refundsCommand
+  .command('list')
+  .description('List refunded orders with the amount and transaction, for reconciliation')
+  .option('--awaiting', 'List paid orders whose delivery failed and that are awaiting a refund instead')
+  .action((options) => {
+    try {
+      const records = listOrderRecords({ status: options.awaiting ? 'awaiting-refund' : 'refunded' });
+      commandOutput.orders = records;
+      
+      if (records.length === 0) {
+        console.log(options.awaiting ? 'No orders are awaiting a refund.' : 'No refunded orders.');
+        return;
+      }
+      for (const record of records) {
+        if (record.refund) {
+          console.log(`${record.orderId}  ${record.refund.detectedAt}  paid ${formatRecordPrice(record)}  refunded ${formatRefund(record.refund)}`);
+        } else {
+          console.log(`${record.orderId}  awaiting refund since ${record.awaitingRefundSince}  paid ${formatRecordPrice(record)}`);
+        }
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const approvalsCommand = program
+  .command('approvals')
+  .description('Manage orders pending approval');
+
+approvalsCommand
+  .command('list')
+  .description('List approval requests')
+  .option('--status <status>', 'Only show requests with this status (pending, approved, rejected, expired, payment-failed)')
+  .action((options) => {
+    try {
+      const requests = listApprovalRequests(options.status as ApprovalStatus | undefined);
+      commandOutput.approvals = requests;
+      if (requests.length === 0) {
+        console.log('No approval requests found.');
+        return;
+      }
+      
+      for (const request of requests) {
+        const totalPrice = request.quote.totalPrice
+          ? `${request.quote.totalPrice.amount} ${request.quote.totalPrice.currency}`
+          : 'price not available';
+        const decision = request.decidedBy ? ` by ${request.decidedBy} at ${request.decidedAt}` : '';
+        console.log(`${request.orderId}  ${request.status}${decision}  ${totalPrice}  requested ${request.requestedAt}`);
+        if (request.paymentError) {
+          console.log(`  Payment failed: ${request.paymentError}`);
+        }
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const ordersCommand = program
+  .command('orders')
+  .description('Browse the local order history');
+
+ordersCommand
+  .command('list')
+  .description('List orders created by this tool')
+  .option('--status <status>', 'Only show orders with this phase, payment status or quote status')
+  .option('--source <source>', 'Only show orders containing products from this source')
+  .option('--since <date>', 'Only show orders created on or after this date')
+  .option('--until <date>', 'Only show orders created on or before this date')
+  .action((options) => {
+    try {
+      const records = listOrderRecords({
+        status: options.status,
+        source: options.source,
+        since: parseDateOption(options.since, '--since'),
+        until: parseDateOption(options.until, '--until')
+      });
+      commandOutput.orders = records;
+      
+      if (records.length === 0) {
+        console.log('No orders found.');
+        return;
+      }
+      
+      for (const record of records) {
+        const status = record.paymentStatus || record.quoteStatus || 'unknown';
+        const sources = Array.from(new Set(record.lineItems.map(lineItem => lineItem.source))).join(',');
+        console.log(`${record.orderId}  ${record.createdAt}  ${record.phase || 'created'}  ${status}  ${formatRecordPrice(record)}  ${record.chain}  ${sources}`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+ordersCommand
+  .command('show <orderId>')
+  .description('Show a stored order together with its current status')
+  .option('-k, --api-key <key>', 'Crossmint API key')
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      const record = getOrderRecord(orderId);
+      commandOutput.orderId = orderId;
+      commandOutput.order = record;
+      
+      if (record) {
+        console.log('\nStored Order:');
+        console.log(`Order ID: ${record.orderId}`);
+        console.log(`Created at: ${record.createdAt}`);
+        console.log(`Chain: ${record.chain}`);
+        console.log(`Payer address: ${record.payerAddress || 'not available'}`);
+        console.log(`Total price: ${formatRecordPrice(record)}`);
+        console.log(`Transaction hash: ${record.transactionHash || 'not paid'}`);
+        const explorerUrl = record.transactionHash ? getExplorerTransactionUrl(record.chain, record.transactionHash) : undefined;
+        if (explorerUrl) {
+          console.log(`Explorer: ${explorerUrl}`);
+        }
+        if (record.blockNumber !== undefined) {
+          console.log(`Block number: ${record.blockNumber}`);
+        }
+        if (record.canceledAt) {
+          console.log(`Canceled at: ${record.canceledAt}${record.cancelReason ? ` (${record.cancelReason})` : ''}`);
+        }
+        if (record.refund) {
+          console.log(`Refund: ${formatRefund(record.refund)}`);
+        } else if (record.awaitingRefundSince) {
+          console.log(`Awaiting refund since: ${record.awaitingRefundSince}`);
+        }
+        console.log('Items:');
+        for (const lineItem of record.lineItems) {
+          console.log(`  ${lineItem.quantity || 1} x ${lineItem.source}: ${lineItem.productIdentifier}`);
+        }
+        if (record.shippingAddress) {
+          console.log(`Shipping address: ${formatShippingAddress(record.shippingAddress)}`);
+        }
+        console.log('History:');
+        for (const event of record.events) {
+          const details = [event.phase, event.paymentStatus, event.quoteStatus, event.transactionHash, event.reason]
+            .filter(Boolean)
+            .join(', ');
+          console.log(`  ${event.timestamp}  ${event.type}${details ? ` (${details})` : ''}`);
+        }
+      } else {
+        console.log(`\nNo local record found for order ${orderId}.`);
+      }
+      
+      const statusResponse = await getOrderStatus(orderId, apiKey);
+      const order = statusResponse.order || statusResponse;
+      applyOrderStatus(commandOutput, statusResponse);
+      
+      console.log('\nCurrent Status:');
+      console.log(`Order phase: ${order.phase || 'unknown'}`);
+      console.log(`Payment status: ${order.payment?.status || 'unknown'}`);
+      console.log(`Quote status: ${order.quote?.status || 'unknown'}`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+/**
+ * Print an address profile
+ */
+function printAddressProfile(profile: AddressProfile, isDefault: boolean): void {
+  console.log(`${profile.name}${isDefault ? ' (default)' : ''}`);
+  console.log(`  Address: ${formatShippingAddress(profile.address)}`);
+  console.log(`  Email: ${profile.email || 'not set'}`);
+}
+
+const addressCommand = program
+  .command('address')
+  .description('Manage saved shipping addresses');
+
+addAddressOptions(
+  addressCommand
+    .command('add <profile>')
+    .description('Save a shipping address under a profile name')
+)
+  .option('-e, --email <email>', 'Email address for orders shipped to this address')
+  .option('--default', 'Ship orders to this profile when they name no address')
+  .option('--force', 'Replace an existing profile with the same name')
+  .action((name: string, options) => {
+    try {
+      if (options.email && !/\S+@\S+\.\S+/.test(options.email)) {
+        exitWithError(new Error(`Invalid email address: ${options.email}`));
+      }
+      
+      const address: ShippingAddress = {
+        name: options.addressName,
+        line1: options.addressLine1,
+        city: options.addressCity,
+        state: options.addressState,
+        postalCode: options.addressPostalCode,
+        country: options.addressCountry
+      };
+      if (options.addressLine2) {
+        address.line2 = options.addressLine2;
+      }
+      
+      const profile = saveAddressProfile(name, address, {
+        email: options.email,
+        replace: options.force,
+        makeDefault: options.default
+      });
+      commandOutput.addressProfile = profile;
+      console.log(`Saved address profile ${profile.name}${options.default ? ' as the default' : ''}.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addressCommand
+  .command('list')
+  .description('List saved address profiles')
+  .action(() => {
+    try {
+      const { defaultProfile } = loadAddressBook();
+      const profiles = listAddressProfiles();
+      commandOutput.addressProfiles = profiles;
+      commandOutput.defaultAddressProfile = defaultProfile;
+      
+      if (profiles.length === 0) {
+        console.log('No saved addresses. Add one with: address add <profile>');
+        return;
+      }
+      
+      for (const profile of profiles) {
+        console.log(`${profile.name === defaultProfile ? '*' : ' '} ${profile.name}  ${formatShippingAddress(profile.address)}  ${profile.email || ''}`.trimEnd());
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addressCommand
+  .command('show <profile>')
+  .description('Show a saved address profile')
+  .action((name: string) => {
+    try {
+      const profile = getAddressProfile(name);
+      commandOutput.addressProfile = profile;
+      printAddressProfile(profile, loadAddressBook().defaultProfile === name);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addressCommand
+  .command('remove <profile>')
+  .description('Delete a saved address profile')
+  .action((name: string) => {
+    try {
+      removeAddressProfile(name);
+      console.log(`Removed address profile ${name}.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+addressCommand
+  .command('default <profile>')
+  .description('Ship orders to this profile when they name no address')
+  .action((name: string) => {
+    try {
+      setDefaultAddressProfile(name);
+      commandOutput.defaultAddressProfile = name;
+      console.log(`Orders without an address now ship to ${name}.`);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const sourcesCommand = program
+  .command('sources')
+  .description('Inspect the product sources orders can buy from');
+
+sourcesCommand
+  .command('list')
+  .description('List the registered product sources and where each came from')
+  .action(() => {
+    try {
+      const sources = sourceRegistry.getAllSources().map(source => ({
+        name: source.name,
+        origin: sourceRegistry.getSourceOrigin(source.name) || 'unknown'
+      }));
+      commandOutput.sources = sources;
+      
+      for (const source of sources) {
+        console.log(`${source.name.padEnd(16)} ${source.origin}`);
+      }
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const walletCommand = program
+  .command('wallet')
+  .description('Inspect the payer wallet');
+
+addSignerOptions(
+  walletCommand
+    .command('balance')
+    .description('Show the USDC and gas token balances of the payer wallet on every supported chain')
+)
+  .option('-a, --address <address>', 'Wallet address, instead of asking the signer')
+  .option('-c, --chain <chain>', 'Only show this chain')
+  .action(async (options) => {
+    try {
+      validateChainOption(options.chain);
+      if (isSolanaChain(options.chain)) {
+        exitWithError(new Error(`Wallet balances are only available on EVM chains, not ${options.chain}`));
+      }
+      
+      let address = options.address;
+      if (!address) {
+        const signer = await getCommandSigner(options);
+        if (!signer) {
+          exitWithError(new Error(`Wallet must be provided via --address, ${SIGNER_SOURCES}`));
+        }
+        address = await signer.getAddress();
+      } else if (!ethers.utils.isAddress(address)) {
+        exitWithError(new Error(`Invalid wallet address: ${address}`));
+      }
+      
+      const balances = await getWalletBalances(address, options.chain ? [options.chain] : listChains({ family: 'evm' }));
+      commandOutput.balances = balances;
+      
+      console.log(`Wallet: ${address}`);
+      for (const balance of balances) {
+        if (balance.error) {
+          console.log(`${balance.chain}: balance not available (${balance.error})`);
+        } else {
+          console.log(`${balance.chain}: ${balance.usdc} USDC, ${balance.native} ${balance.nativeCurrency}`);
+        }
+      }
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -369,16 +1488,37 @@ program
   .description('Check the status of an existing order')
   .requiredOption('-i, --order-id <id>', 'Order ID')
   .option('-k, --api-key <key>', 'Crossmint API key')
+  .option('-w, --watch', 'Follow the order until it completes or fails')
   .action(async (options) => {
     try {
       // Get API key from options or environment variable
       const apiKey = options.apiKey || process.env.CROSSMINT_API_KEY;
       if (!apiKey) {
-        console.error('Error: API key must be provided via --api-key option or CROSSMINT_API_KEY environment variable');
-        process.exit(1);
+        exitWithError(new Error('API key must be provided via --api-key option or CROSSMINT_API_KEY environment variable'));
+      }
+      
+      commandOutput.orderId = options.orderId;
+      
+      if (options.watch) {
+        // Ctrl+C stops watching without treating it as a failure
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.once('SIGINT', stop);
+        
+        try {
+          console.log(`Watching order ${options.orderId}. Press Ctrl+C to stop.`);
+          for await (const event of watchOrder(options.orderId, { apiKey, signal: controller.signal })) {
+            applyOrderStatus(commandOutput, event.status);
+            handleOrderEvent(event);
+          }
+        } finally {
+          process.removeListener('SIGINT', stop);
+        }
+        return;
       }
       
       const statusResponse = await getOrderStatus(options.orderId, apiKey);
+      applyOrderStatus(commandOutput, statusResponse);
       
       // Add null checks for the order and quote properties
       const order = statusResponse.order || statusResponse;
@@ -392,8 +1532,127 @@ program
       console.log(`Payment status: ${paymentStatus}`);
       
     } catch (error) {
-      console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+program
+  .command('track <orderId>')
+  .description('Show the delivery status, carrier, tracking number and recipient of each item of an order')
+  .option('-k, --api-key <key>', 'Crossmint API key')
+  .option('-f, --follow', 'Keep tracking until every item is delivered or has failed')
+  .option('--interval <seconds>', 'Longest wait between checks with --follow', parseSeconds, 600)
+  .action(async (orderId: string, options) => {
+    try {
+      const apiKey = getApiKey(options);
+      commandOutput.orderId = orderId;
+      const record = getOrderRecord(orderId);
+      
+      if (options.follow) {
+        // Ctrl+C stops tracking without treating it as a failure
+        const controller = new AbortController();
+        const stop = () => controller.abort();
+        process.once('SIGINT', stop);
+        
+        try {
+          console.log(`Tracking order ${orderId} until every item is delivered or has failed. Press Ctrl+C to stop.`);
+          const watch = watchOrder(orderId, { apiKey, maxDelayMs: options.interval * 1000, signal: controller.signal });
+          for await (const event of watch) {
+            applyOrderStatus(commandOutput, event.status);
+            commandOutput.deliveries = getLineItemDeliveries(event.status, record);
+            handleOrderEvent(event);
+          }
+        } finally {
+          process.removeListener('SIGINT', stop);
+        }
+        return;
+      }
+      
+      const statusResponse = await getOrderStatus(orderId, apiKey);
+      applyOrderStatus(commandOutput, statusResponse);
+      commandOutput.deliveries = getLineItemDeliveries(statusResponse, record);
+      
+      console.log(`Order ${orderId} phase: ${commandOutput.phase}`);
+      if (commandOutput.deliveries.length === 0) {
+        console.log('No delivery information yet.');
+        return;
+      }
+      logDeliveries(commandOutput.deliveries);
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+const webhooksCommand = program
+  .command('webhooks')
+  .description('Receive Crossmint order webhooks instead of polling');
+
+webhooksCommand
+  .command('serve')
+  .description('Run a local endpoint that verifies Crossmint order webhooks and applies them to the order history')
+  .option('-p, --port <port>', 'Port to listen on', parsePort, 3000)
+  .option('--host <host>', 'Host to listen on', '127.0.0.1')
+  .option('--path <path>', 'URL path webhooks are posted to', DEFAULT_WEBHOOK_PATH)
+  .option('-s, --secret <secret>', 'Webhook signing secret')
+  .option('--tolerance <seconds>', 'Maximum webhook age in seconds', parseSeconds, DEFAULT_WEBHOOK_TOLERANCE_SECONDS)
+  .action(async (options) => {
+    try {
+      const secret = getWebhookSecret(options);
+      const server = createWebhookServer({
+        secret,
+        path: options.path,
+        toleranceSeconds: options.tolerance,
+        onEvent: handleOrderEvent
+      });
+      
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, resolve);
+      });
+      const address = server.address();
+      const port = address && typeof address === 'object' ? address.port : options.port;
+      console.log(`Listening for Crossmint webhooks on http://${options.host}:${port}${options.path}. Press Ctrl+C to stop.`);
+      
+      // Keep serving until interrupted
+      await new Promise<void>(resolve => {
+        process.once('SIGINT', () => server.close(() => resolve()));
+      });
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+webhooksCommand
+  .command('send <payloadFile>')
+  .description('Sign a sample webhook payload and post it to a local endpoint for testing')
+  .option('-u, --url <url>', 'Webhook endpoint URL', `http://127.0.0.1:3000${DEFAULT_WEBHOOK_PATH}`)
+  .option('-s, --secret <secret>', 'Webhook signing secret')
+  .option('--id <id>', 'Webhook ID (default: random)')
+  .action(async (payloadFile, options) => {
+    try {
+      const secret = getWebhookSecret(options);
+      const body = fs.readFileSync(payloadFile, 'utf8');
+      const id = options.id || `msg_${crypto.randomUUID()}`;
+      const timestamp = Math.floor(Date.now() / 1000);
+      
+      const response = await axios.post(options.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'svix-id': id,
+          'svix-timestamp': String(timestamp),
+          'svix-signature': signWebhookPayload(secret, id, timestamp, body)
+        },
+        // Send the body exactly as signed, axios would otherwise trim JSON strings
+        transformRequest: data => data,
+        validateStatus: () => true
+      });
+      
+      console.log(`Webhook ${id} posted, endpoint responded with ${response.status}: ${JSON.stringify(response.data)}`);
+      if (response.status >= 300) {
+        exitWithError(new Error(`Webhook endpoint responded with ${response.status}`));
+      }
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -404,4 +1663,4 @@ if (args.length > 0 && args[0] === '--') {
   process.argv = [process.argv[0], process.argv[1], ...args.slice(1)];
 }
 
-program.parse();
+program.parseAsync();
@@ -0,0 +1,212 @@
+import axios, { AxiosError, AxiosRequestConfig, Method } from 'axios';
+import crypto from 'crypto';
+
+/**
+ * Options for the Crossmint API client
+ */
+export interface CrossmintClientOptions {
+  apiKey: string;
+  // Overrides the base URL derived from the API key, e.g. to use a local stand-in or a proxy
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Options for a single API request
+ */
+export interface RequestOptions {
+  data?: unknown;
+  timeoutMs?: number;
+  idempotencyKey?: string;
+}
+
+const API_VERSION_PATH = '/api/2022-06-09';
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Determine the API base URL based on the API key format
+ * Production keys start with 'sk_production_', staging keys start with 'sk_staging_'
+ * @param apiKey Crossmint API key
+ * @returns API base URL
+ */
+export function getDefaultApiBaseUrl(apiKey: string): string {
+  if (apiKey && apiKey.startsWith('sk_production_')) {
+    return `https://www.crossmint.com${API_VERSION_PATH}`;
+  } else {
+    return `https://staging.crossmint.com${API_VERSION_PATH}`;
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ * @param value Header value
+ * @param now Current time
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: unknown, now: Date = new Date()): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now.getTime());
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a failed request should be retried
+ * Rate limits, server errors and network failures are retried; other client errors are not
+ */
+function isRetryableError(error: AxiosError): boolean {
+  if (!error.response) {
+    return true;
+  }
+  return error.response.status === 429 || error.response.status >= 500;
+}
+
+/**
+ * Read a numeric setting from the environment
+ * @param name Variable name
+ * @returns The number, or undefined if the variable is not set
+ * @throws Error if the value is not a finite, non-negative number
+ */
+export function parseNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new Error(`Invalid ${name}: ${value} (expected a non-negative number)`);
+  }
+  return number;
+}
+
+/**
+ * Client for the Crossmint API with timeouts and retries
+ */
+export class CrossmintClient {
+  readonly baseUrl: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private maxRetryDelayMs: number;
+
+  constructor(options: CrossmintClientOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || getDefaultApiBaseUrl(options.apiKey)).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  }
+
+  /**
+   * Create an order
+   * An idempotency key is always sent, so a retried request never creates a duplicate order
+   * @param body Order request body
+   * @param idempotencyKey Idempotency key, generated if not provided
+   * @returns Created order
+   */
+  async createOrder<T = any>(body: unknown, idempotencyKey: string = crypto.randomUUID()): Promise<T> {
+    return this.request<T>('POST', '/orders', { data: body, idempotencyKey });
+  }
+
+  /**
+   * Update an order
+   * @param orderId Order ID
+   * @param body Fields to update
+   * @returns Updated order
+   */
+  async updateOrder<T = any>(orderId: string, body: unknown): Promise<T> {
+    return this.request<T>('PATCH', `/orders/${encodeURIComponent(orderId)}`, { data: body });
+  }
+
+  /**
+   * Get an order
+   * @param orderId Order ID
+   * @returns Order
+   */
+  async getOrder<T = any>(orderId: string): Promise<T> {
+    return this.request<T>('GET', `/orders/${encodeURIComponent(orderId)}`);
+  }
+
+  /**
+   * Send a request to the Crossmint API, retrying with exponential backoff on 429, 5xx and network errors
+   * @param method HTTP method
+   * @param path Path relative to the base URL
+   * @param options Request body, timeout and idempotency key
+   * @returns Response data
+   */
+  async request<T = any>(method: Method, path: string, options: RequestOptions = {}): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-API-KEY': this.apiKey
+    };
+    if (options.idempotencyKey) {
+      headers['x-idempotency-key'] = options.idempotencyKey;
+    }
+
+    const config: AxiosRequestConfig = {
+      method,
+      url: `${this.baseUrl}${path}`,
+      data: options.data,
+      headers,
+      timeout: options.timeoutMs ?? this.timeoutMs
+    };
+
+    // Only retry POST requests that carry an idempotency key
+    const canRetry = method.toUpperCase() !== 'POST' || options.idempotencyKey !== undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.request<T>(config);
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        if (!axios.isAxiosError(error) || !canRetry || attempt >= this.maxRetries || !isRetryableError(axiosError)) {
+          throw error;
+        }
+
+        const backoffMs = Math.min(this.maxRetryDelayMs, this.retryBaseDelayMs * 2 ** attempt);
+        const retryAfterMs = parseRetryAfter(axiosError.response?.headers?.['retry-after']);
+        const delayMs = retryAfterMs !== undefined ? Math.min(this.maxRetryDelayMs, retryAfterMs) : backoffMs;
+
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
+
+/**
+ * Create a Crossmint API client configured from the environment
+ * Supports CROSSMINT_API_BASE_URL, CROSSMINT_API_TIMEOUT_MS and CROSSMINT_API_MAX_RETRIES
+ * @param apiKey Crossmint API key
+ * @param overrides Options taking precedence over the environment
+ * @returns Crossmint API client
+ */
+export function createCrossmintClient(apiKey: string, overrides: Partial<CrossmintClientOptions> = {}): CrossmintClient {
+  return new CrossmintClient({
+    apiKey,
+    baseUrl: process.env.CROSSMINT_API_BASE_URL || undefined,
+    timeoutMs: parseNumberEnv('CROSSMINT_API_TIMEOUT_MS'),
+    maxRetries: parseNumberEnv('CROSSMINT_API_MAX_RETRIES'),
+    ...overrides
+  });
+}
@@ -0,0 +1,191 @@
+/**
+ * Base class for all errors raised by the purchasing tool
+ */
+export class CryptoBuyerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The payer wallet cannot cover the order
+ */
+export class InsufficientFundsError extends CryptoBuyerError {
+  constructor(message: string = 'Insufficient funds') {
+    super(message);
+  }
+}
+
+/**
+ * The order needs a shipping address before it can be paid
+ */
+export class AddressRequiredError extends CryptoBuyerError {
+  constructor(message: string = 'recipient.physicalAddress is required') {
+    super(message);
+  }
+}
+
+/**
+ * The shipping address is malformed or cannot be shipped to
+ */
+export class InvalidAddressError extends CryptoBuyerError {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid shipping address: ${problems.join('; ')}`);
+    this.problems = problems;
+  }
+}
+
+/**
+ * The product cannot be purchased, e.g. because it is out of stock or not deliverable
+ */
+export class ProductUnavailableError extends CryptoBuyerError {}
+
+/**
+ * The product is listed on a marketplace, e.g. amazon.co.uk, that Crossmint cannot buy from
+ */
+export class UnsupportedMarketplaceError extends ProductUnavailableError {
+  marketplace: string;
+
+  constructor(marketplace: string, supported: string[]) {
+    super(`Unsupported marketplace: ${marketplace}. Products can be bought from ${supported.join(', ')}`);
+    this.marketplace = marketplace;
+  }
+}
+
+/**
+ * The order's quote is no longer valid and a new quote is needed
+ */
+export class QuoteExpiredError extends CryptoBuyerError {
+  orderId: string;
+  expiresAt?: string;
+
+  constructor(orderId: string, expiresAt?: string) {
+    super(
+      expiresAt
+        ? `Quote for order ${orderId} expired at ${expiresAt}. Request a new quote.`
+        : `Quote for order ${orderId} is no longer valid. Request a new quote.`
+    );
+    this.orderId = orderId;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * The Crossmint API returned an error response or could not be reached
+ */
+export class ApiError extends CryptoBuyerError {
+  // HTTP status code, undefined when no response was received
+  status?: number;
+  body?: unknown;
+
+  constructor(message: string, status?: number, body?: unknown) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * The payment transaction was mined but reverted
+ */
+export class TransactionRevertedError extends CryptoBuyerError {
+  transactionHash: string;
+  blockNumber?: number;
+
+  constructor(transactionHash: string, blockNumber?: number) {
+    super(`Transaction ${transactionHash} reverted${blockNumber !== undefined ? ` in block ${blockNumber}` : ''}`);
+    this.transactionHash = transactionHash;
+    this.blockNumber = blockNumber;
+  }
+}
+
+/**
+ * The transaction prepared by the API does not match the order, so it was not signed
+ */
+export class TransactionVerificationError extends CryptoBuyerError {
+  reasons: string[];
+
+  constructor(reasons: string[]) {
+    super(`Refusing to sign payment transaction: ${reasons.join('; ')}`);
+    this.reasons = reasons;
+  }
+}
+
+/**
+ * Polling gave up before the order reached the expected state
+ */
+export class PollingTimeoutError extends CryptoBuyerError {}
+
+/**
+ * The order is waiting for approval or was rejected, so it can only be paid through the approval workflow
+ */
+export class ApprovalRequiredError extends CryptoBuyerError {
+  orderId: string;
+  status: string;
+
+  constructor(orderId: string, status: string) {
+    super(
+      status === 'rejected'
+        ? `Order ${orderId} was rejected and cannot be paid`
+        : status === 'payment-failed'
+          ? `The approved payment of order ${orderId} failed. Retry it with: approve ${orderId}`
+          : `Order ${orderId} is waiting for approval. Approve it with: approve ${orderId}`
+    );
+    this.orderId = orderId;
+    this.status = status;
+  }
+}
+
+/**
+ * The order was canceled and must not be paid
+ */
+export class OrderCanceledError extends CryptoBuyerError {
+  orderId: string;
+
+  constructor(orderId: string) {
+    super(`Order ${orderId} was canceled and cannot be paid`);
+    this.orderId = orderId;
+  }
+}
+
+/**
+ * The purchase violates the local spend policy
+ */
+export class SpendPolicyError extends CryptoBuyerError {
+  violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Purchase blocked by spend policy: ${violations.join('; ')}`);
+    this.violations = violations;
+  }
+}
+
+/**
+ * A webhook request could not be authenticated or was already processed
+ */
+export class WebhookVerificationError extends CryptoBuyerError {}
+
+/**
+ * The payment method does not name a chain the tool can pay on
+ */
+export class UnsupportedChainError extends CryptoBuyerError {
+  chain: string;
+
+  constructor(chain: string) {
+    super(`Unsupported chain: ${chain}`);
+    this.chain = chain;
+  }
+}
+
+/**
+ * A product source plugin could not be loaded, does not implement ProductSource or reuses a registered name
+ */
+export class PluginError extends CryptoBuyerError {}
+
+/**
+ * No usable RPC endpoint is configured for a chain, or an endpoint serves the wrong chain
+ */
+export class RpcEndpointError extends CryptoBuyerError {}
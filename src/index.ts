@@ -1,6 +1,35 @@
-import axios, { AxiosError } from 'axios';
+import { AxiosError } from 'axios';
 import dotenv from 'dotenv';
-import { getWalletAddressFromPrivateKey, processPayment, Order } from './payment';
+import { ethers } from 'ethers';
+import { createCrossmintClient } from './client';
+import { watchOrder } from './watcher';
+import {
+  AddressRequiredError,
+  ApiError,
+  ApprovalRequiredError,
+  CryptoBuyerError,
+  InsufficientFundsError,
+  OrderCanceledError,
+  PollingTimeoutError,
+  ProductUnavailableError,
+  QuoteExpiredError
+} from './errors';
+import { getWalletAddressFromPrivateKey, processPayment, Order, PaymentReceipt, SpendContext } from './payment';
+import { assertWalletFunds } from './wallet';
+import { PaymentSigner, SignerLike } from './signers';
+import { DEFAULT_MAINNET_CHAIN, DEFAULT_TESTNET_CHAIN, getChain } from './chains';
+import { enforceProductPolicy, ProductReference } from './policy';
+import { validateShippingAddress } from './address-validation';
+import { getApprovalRequest } from './approvals';
+import { recordRefundStatus } from './refunds';
+import { createAmazonProductLocator, isAsin, parseAmazonUrl } from './amazon';
+import {
+  getOrderRecord,
+  recordOrderAddressUpdated,
+  recordOrderCreated,
+  recordOrderPayerUpdated,
+  recordOrderStatus
+} from './order-history';
 
 dotenv.config();
 
@@ -21,14 +50,34 @@ export interface ShippingAddress {
   country: string;
 }
 
-export interface OrderOptions {
+export interface OrderLineItem {
   source: string;
   productIdentifier: string;
   isUrl: boolean;
+  quantity?: number;
+}
+
+// Line items as callers pass them; the source of a URL can be left out and is detected from the URL
+export type OrderLineItemInput = Omit<OrderLineItem, 'source'> & { source?: string };
+
+export interface OrderOptions {
+  // Single product orders can set source, productIdentifier and isUrl directly; URLs need no source
+  source?: string;
+  productIdentifier?: string;
+  isUrl?: boolean;
+  quantity?: number;
+  // Multi-item orders list every product in lineItems instead
+  lineItems?: OrderLineItemInput[];
   apiKey: string;
   email: string;
   shippingAddress?: ShippingAddress;
   chain?: string; // Add this line to support user-specified chain
+  // Wallet that will pay, e.g. picked from the wallet pool (default: the signer's address)
+  payerAddress?: string;
+  // Signer that will pay, used for the payer address when payerAddress is not set (default: the PRIVATE_KEY wallet)
+  signer?: PaymentSigner;
+  // Provider used to read the payer's balances before the order is created (default: the chain's configured RPC endpoints)
+  provider?: ethers.providers.Provider;
 }
 
 export interface OrderResponse {
@@ -71,6 +120,10 @@ export interface OrderStatusResponse {
       };
       delivery?: {
         status: string;
+        // Shipping details, once the item has shipped
+        carrier?: string;
+        trackingNumber?: string;
+        trackingUrl?: string;
         recipient?: {
           locator?: string;
           email?: string;
@@ -100,6 +153,13 @@ export interface OrderStatusResponse {
         serializedTransaction?: string;
         [key: string]: any;
       };
+      // Set once a failed delivery has been refunded to the payer
+      refunded?: {
+        amount: string;
+        currency: string;
+        chain?: string;
+        txId?: string;
+      };
     };
   };
   // Fields for the actual API response structure
@@ -122,22 +182,47 @@ export interface OrderStatusResponse {
       serializedTransaction?: string;
       [key: string]: any;
     };
+    refunded?: {
+      amount: string;
+      currency: string;
+      chain?: string;
+      txId?: string;
+    };
   };
 }
 
-// Constants
-// Determine API base URL based on the API key format
-// Production keys start with 'sk_production_', staging keys start with 'sk_staging_'
-function getApiBaseUrl(apiKey: string): string {
-  if (apiKey && apiKey.startsWith('sk_production_')) {
-    return 'https://www.crossmint.com/api/2022-06-09';
-  } else {
-    return 'https://staging.crossmint.com/api/2022-06-09';
-  }
+export interface QuoteLineItem {
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+  quantity?: number;
+  unitPrice?: {
+    amount: string;
+    currency: string;
+  };
+  totalPrice?: {
+    amount: string;
+    currency: string;
+  };
 }
 
-// Determine payment method based on the API key format or user-specified chain
-function getPaymentMethod(apiKey: string, chain?: string): string {
+export interface OrderQuoteSummary {
+  orderId: string;
+  status: string;
+  chain: string;
+  currency: string;
+  totalPrice?: {
+    amount: string;
+    currency: string;
+  };
+  quotedAt?: string;
+  expiresAt?: string;
+  lineItems: QuoteLineItem[];
+}
+
+// Constants
+// Determine the chain based on the API key format or user-specified chain
+function getOrderChain(apiKey: string, chain?: string): string {
   // If chain is specified, use it
   if (chain) {
     return chain;
@@ -145,21 +230,43 @@ function getPaymentMethod(apiKey: string, chain?: string): string {
   
   // Otherwise, determine based on API key format
   if (apiKey && apiKey.startsWith('sk_production_')) {
-    return SUPPORTED_CHAINS.POLYGON; // Use polygon for production
+    return DEFAULT_MAINNET_CHAIN; // Use polygon for production
   } else {
-    return SUPPORTED_CHAINS.POLYGON_AMOY; // Use polygon-amoy for staging
+    return DEFAULT_TESTNET_CHAIN; // Use polygon-amoy for staging
   }
 }
 
-const DEFAULT_EMAIL = 'devin-ai@example.com';
+/**
+ * Get the Crossmint payment method for an order
+ * @param apiKey Crossmint API key
+ * @param chain User-specified chain
+ * @returns Payment method of the chain from the registry
+ * @throws UnsupportedChainError if the chain is not in the registry
+ */
+function getPaymentMethod(apiKey: string, chain?: string): string {
+  return getChain(getOrderChain(apiKey, chain)).paymentMethod;
+}
 
-// Supported blockchain networks
-export const SUPPORTED_CHAINS = {
-  POLYGON: 'polygon',
-  POLYGON_AMOY: 'polygon-amoy',
-  BASE: 'base',
-  BASE_SEPOLIA: 'base-sepolia'
-};
+/**
+ * Get the wallet that will pay for an order
+ * @param options Order options
+ * @returns The chosen payer address, the signer's address, the PRIVATE_KEY wallet, or undefined if none is known
+ */
+async function getPayerAddress(options: OrderOptions): Promise<string | undefined> {
+  if (options.payerAddress) {
+    return options.payerAddress;
+  }
+  if (options.signer) {
+    return options.signer.getAddress();
+  }
+  
+  // PRIVATE_KEY holds an EVM key, which cannot pay on Solana
+  const privateKey = process.env.PRIVATE_KEY;
+  const family = getChain(getOrderChain(options.apiKey, options.chain)).family;
+  return privateKey && family === 'evm' ? getWalletAddressFromPrivateKey(privateKey) : undefined;
+}
+
+const DEFAULT_EMAIL = 'devin-ai@example.com';
 
 // Polling configuration
 const DEFAULT_POLLING_MAX_ATTEMPTS = 15;
@@ -172,11 +279,7 @@ const DEFAULT_POLLING_TIMEOUT_MS = 30000; // 30 seconds
  * @returns ASIN
  */
 export function extractAsinFromUrl(url: string): string | null {
-  // Match ASIN pattern in Amazon URLs
-  const asinPattern = /\/([A-Z0-9]{10})(?:\/|\?|$)/;
-  const match = url.match(asinPattern);
-  
-  return match ? match[1] : null;
+  return AmazonSource.extractProductId(url);
 }
 
 /**
@@ -184,46 +287,122 @@ export function extractAsinFromUrl(url: string): string | null {
  * @param identifier Product identifier (URL or ASIN)
  * @param isUrl Whether the identifier is a URL
  * @returns Product locator string
+ * @throws UnsupportedMarketplaceError if the URL is on a marketplace Crossmint cannot buy from
  */
 export function createProductLocator(identifier: string, isUrl: boolean): string {
-  if (isUrl) {
-    return `amazon:${identifier}`;
-  } else {
-    return `amazon:${identifier}`;
-  }
+  return AmazonSource.createProductLocator(identifier, isUrl);
 }
 
-// Amazon product source implementation
+// Amazon product source implementation; URLs are parsed for the ASIN and the marketplace
 export const AmazonSource: ProductSource = {
   name: 'amazon',
   extractProductId(url: string): string | null {
-    // Match ASIN pattern in Amazon URLs
-    const asinPattern = /\/([A-Z0-9]{10})(?:\/|\?|$)/;
-    const match = url.match(asinPattern);
-    return match ? match[1] : null;
+    return parseAmazonUrl(url)?.asin || null;
   },
   createProductLocator(identifier: string, isUrl: boolean): string {
     if (isUrl) {
-      const asin = this.extractProductId(identifier);
-      return asin ? `amazon:${asin}` : `amazon:${identifier}`;
-    } else {
-      return `amazon:${identifier}`;
+      const product = parseAmazonUrl(identifier);
+      if (!product) {
+        throw new Error(`Invalid Amazon product URL: ${identifier}`);
+      }
+      return createAmazonProductLocator(product);
+    }
+    if (!isAsin(identifier)) {
+      throw new Error(`Invalid ASIN: ${identifier}`);
     }
+    // Bare ASINs name amazon.com products
+    return `amazon:${identifier.toUpperCase()}`;
+  },
+  validateIdentifier(identifier: string, isUrl: boolean): boolean {
+    if (isUrl) {
+      return parseAmazonUrl(identifier) !== null;
+    }
+    return isAsin(identifier);
+  }
+};
+
+// Shopify product source implementation; stores run on *.myshopify.com or on their own domains
+const SHOPIFY_DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const SHOPIFY_HANDLE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const SHOPIFY_VARIANT_PATTERN = /^\d{1,20}$/;
+
+/**
+ * Split a Shopify product ID into its parts
+ * @param productId Product ID in the "<store domain>:<product handle>:<variant ID>" format
+ * @returns Store domain, product handle and variant ID, or null if the ID is malformed
+ */
+function parseShopifyProductId(productId: string): { domain: string; handle: string; variantId: string } | null {
+  const [domain, handle, variantId, ...rest] = productId.split(':');
+  if (rest.length > 0 || !SHOPIFY_DOMAIN_PATTERN.test(domain || '') || !SHOPIFY_HANDLE_PATTERN.test(handle || '') ||
+      !SHOPIFY_VARIANT_PATTERN.test(variantId || '')) {
+    return null;
+  }
+  return { domain, handle, variantId };
+}
+
+export const ShopifySource: ProductSource = {
+  name: 'shopify',
+  // Returns "<store domain>:<product handle>:<variant ID>"; the variant must be selected, as Crossmint buys variants
+  extractProductId(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return null;
+    }
+
+    // Product pages can be nested under collections or a locale, e.g. /en-ca/collections/tees/products/classic-tee
+    const match = parsed.pathname.match(/\/products\/([^/]+)\/?$/);
+    const variantId = parsed.searchParams.get('variant');
+    if (!match || !variantId) {
+      return null;
+    }
+
+    const productId = `${parsed.hostname.toLowerCase()}:${match[1].toLowerCase()}:${variantId}`;
+    return parseShopifyProductId(productId) ? productId : null;
+  },
+  createProductLocator(identifier: string, isUrl: boolean): string {
+    const productId = isUrl ? this.extractProductId(identifier) : identifier;
+    const parts = productId ? parseShopifyProductId(productId) : null;
+    if (!parts) {
+      throw new Error(`Invalid Shopify product: ${identifier}`);
+    }
+    return `shopify:https://${parts.domain}/products/${parts.handle}:${parts.variantId}`;
   },
   validateIdentifier(identifier: string, isUrl: boolean): boolean {
     if (isUrl) {
       return this.extractProductId(identifier) !== null;
     }
-    return /^[A-Z0-9]{10}$/.test(identifier);
+    return parseShopifyProductId(identifier) !== null;
   }
 };
 
 // Source registry to manage product sources
-class SourceRegistry {
+export class SourceRegistry {
   private sources: Map<string, ProductSource> = new Map();
+  // Where each source came from, e.g. "built-in" or the plugin that registered it
+  private origins: Map<string, string> = new Map();
 
-  registerSource(source: ProductSource): void {
+  /**
+   * Register a product source
+   * @param source Product source
+   * @param origin Where the source came from (default: "built-in")
+   * @throws Error if a source with the same name is already registered
+   */
+  registerSource(source: ProductSource, origin: string = 'built-in'): void {
+    const existing = this.origins.get(source.name);
+    if (existing) {
+      throw new Error(`Product source ${source.name} from ${origin} conflicts with the registered ${source.name} source (${existing})`);
+    }
     this.sources.set(source.name, source);
+    this.origins.set(source.name, origin);
+  }
+
+  getSourceOrigin(name: string): string | undefined {
+    return this.origins.get(name);
   }
 
   getSource(name: string): ProductSource | undefined {
@@ -233,51 +412,164 @@ class SourceRegistry {
   getAllSources(): ProductSource[] {
     return Array.from(this.sources.values());
   }
+
+  /**
+   * Find the sources that can handle a product URL
+   * @param url Product URL
+   * @returns Every source that accepts the URL
+   */
+  findSourcesForUrl(url: string): ProductSource[] {
+    return this.getAllSources().filter(source => source.validateIdentifier(url, true));
+  }
+
+  /**
+   * Resolve a product URL to the one source that can handle it
+   * @param url Product URL
+   * @returns Matching source
+   * @throws Error if no source or more than one source accepts the URL
+   */
+  resolveUrl(url: string): ProductSource {
+    const matches = this.findSourcesForUrl(url);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+
+    if (matches.length === 0) {
+      const known = Array.from(this.sources.keys()).join(', ');
+      throw new Error(`No product source recognizes ${url}. Known sources are: ${known}`);
+    }
+    const candidates = matches.map(source => source.name).join(', ');
+    throw new Error(`Several product sources recognize ${url}: ${candidates}. Choose one with --source`);
+  }
 }
 
 // Create and initialize the source registry
 export const sourceRegistry = new SourceRegistry();
 sourceRegistry.registerSource(AmazonSource);
+sourceRegistry.registerSource(ShopifySource);
+
+/**
+ * Fill in the source of a line item, detecting it from the URL when none is given
+ * @param lineItem Line item, possibly without a source
+ * @returns Line item with its source
+ * @throws Error if a product ID has no source, or no single source recognizes the URL
+ */
+function resolveLineItemSource(lineItem: OrderLineItemInput): OrderLineItem {
+  if (lineItem.source) {
+    return { ...lineItem, source: lineItem.source };
+  }
+  if (!lineItem.isUrl) {
+    throw new Error(`Product source is required for product ID ${lineItem.productIdentifier}`);
+  }
+  return { ...lineItem, source: sourceRegistry.resolveUrl(lineItem.productIdentifier).name };
+}
+
+/**
+ * Get the line items of an order, supporting both single product and multi-item options
+ * @param options Order options
+ * @returns Line items, each with its source
+ */
+export function getOrderLineItems(options: OrderOptions): OrderLineItem[] {
+  if (options.lineItems && options.lineItems.length > 0) {
+    return options.lineItems.map(resolveLineItemSource);
+  }
+
+  if (!options.productIdentifier) {
+    throw new Error('Order must contain at least one line item');
+  }
+
+  return [
+    resolveLineItemSource({
+      source: options.source,
+      productIdentifier: options.productIdentifier,
+      isUrl: options.isUrl || false,
+      quantity: options.quantity
+    })
+  ];
+}
+
+/**
+ * Get the source and product ID of a line item for spend policy checks
+ * @param lineItem Order line item
+ * @returns Product reference
+ */
+export function getProductReference(lineItem: OrderLineItem): ProductReference {
+  const productSource = sourceRegistry.getSource(lineItem.source);
+  const productId = lineItem.isUrl
+    ? productSource?.extractProductId(lineItem.productIdentifier) || lineItem.productIdentifier
+    : lineItem.productIdentifier;
+
+  return { source: lineItem.source, productId };
+}
+
+/**
+ * Convert a failed Crossmint API request into an ApiError
+ * @param action Description of the failed action, e.g. "create order"
+ * @param error Error thrown by the API client
+ * @returns API error with the response status and body when available
+ */
+function toApiError(action: string, error: unknown): ApiError {
+  const axiosError = error as AxiosError;
+  if (axiosError.response) {
+    return new ApiError(
+      `Failed to ${action}: ${axiosError.response.status} - ${JSON.stringify(axiosError.response.data)}`,
+      axiosError.response.status,
+      axiosError.response.data
+    );
+  }
+  return new ApiError(`Failed to ${action}: ${String(error)}`);
+}
 
 /**
  * Create an order for a physical product
  * @param options Order options
  * @returns Order response
+ * @throws InvalidAddressError if the shipping address is malformed
  */
 export async function createOrder(options: OrderOptions): Promise<OrderResponse> {
-  const { source, productIdentifier, isUrl, apiKey, email, shippingAddress, chain } = options;
+  const { apiKey, email, chain } = options;
   
-  // Get the source from the registry
-  const productSource = sourceRegistry.getSource(source);
-  if (!productSource) {
-    throw new Error(`Unsupported product source: ${source}`);
-  }
+  // Catch malformed addresses before an order exists, and send them in canonical form
+  const shippingAddress = options.shippingAddress && validateShippingAddress(options.shippingAddress);
   
-  // Validate the product identifier
-  if (!productSource.validateIdentifier(productIdentifier, isUrl)) {
-    throw new Error(`Invalid product identifier for source ${source}: ${productIdentifier}`);
-  }
-  
-  // Create the product locator
-  const productLocator = productSource.createProductLocator(productIdentifier, isUrl);
+  const orderLineItems = getOrderLineItems(options);
+  const lineItems = orderLineItems.map(lineItem => {
+    const { source, productIdentifier, isUrl, quantity } = lineItem;
+    
+    // Get the source from the registry
+    const productSource = sourceRegistry.getSource(source);
+    if (!productSource) {
+      throw new Error(`Unsupported product source: ${source}`);
+    }
+    
+    // Validate the product identifier
+    if (!productSource.validateIdentifier(productIdentifier, isUrl)) {
+      throw new Error(`Invalid product identifier for source ${source}: ${productIdentifier}`);
+    }
+    
+    // Validate the quantity
+    if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1)) {
+      throw new Error(`Invalid quantity for ${productIdentifier}: ${quantity}`);
+    }
+    
+    // Create the product locator
+    const productLocator = productSource.createProductLocator(productIdentifier, isUrl);
+    
+    return quantity !== undefined ? { productLocator, callData: { quantity } } : { productLocator };
+  });
   
   // Prepare request body
   const requestBody: any = {
-    lineItems: [
-      {
-        productLocator
-      }
-    ],
+    lineItems,
     payment: {
       method: getPaymentMethod(apiKey, chain),
       currency: "usdc"
     }
   };
   
-  // Add payer address if private key is available
-  const privateKey = process.env.PRIVATE_KEY;
-  if (privateKey) {
-    const payerAddress = getWalletAddressFromPrivateKey(privateKey);
+  // Add payer address if a payer was picked or a private key is available
+  const payerAddress = await getPayerAddress(options);
+  if (payerAddress) {
     requestBody.payment.payerAddress = payerAddress;
   }
   
@@ -305,10 +597,21 @@ export async function createOrder(options: OrderOptions): Promise<OrderResponse>
     }
   }
   
+  // Keep a local record of every order the tool creates
+  const recordCreated = (response: OrderResponse) => recordOrderCreated({
+    orderId: response.order.orderId,
+    lineItems: orderLineItems,
+    chain: requestBody.payment.method,
+    payerAddress: requestBody.payment.payerAddress,
+    email,
+    shippingAddress,
+    quoteStatus: response.order.quote.status
+  });
+  
   // Check if we're in test mode
   if (process.env.NODE_ENV === 'test') {
     console.log('Running in test mode, returning mock response');
-    return {
+    const mockResponse: OrderResponse = {
       order: {
         orderId: `mock-order-${Date.now()}`,
         quote: {
@@ -316,30 +619,29 @@ export async function createOrder(options: OrderOptions): Promise<OrderResponse>
         }
       }
     };
+    recordCreated(mockResponse);
+    return mockResponse;
   }
   
+  let data: OrderResponse;
   try {
-    const apiBaseUrl = getApiBaseUrl(apiKey);
-    const response = await axios.post(`${apiBaseUrl}/orders`, requestBody, {
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-KEY': apiKey
-      }
-    });
-    
-    // Store the response data
-    const data = response.data;
-    
-    return response.data;
+    data = await createCrossmintClient(apiKey).createOrder<OrderResponse>(requestBody);
   } catch (error) {
     const axiosError = error as AxiosError;
     if (axiosError.response) {
       console.error(`API Error Response: ${JSON.stringify(axiosError.response.data)}`);
-      throw new Error(`Failed to create order: ${axiosError.response.status} - ${JSON.stringify(axiosError.response.data)}`);
-    } else {
-      throw new Error(`Failed to create order: ${String(error)}`);
     }
+    throw toApiError('create order', error);
   }
+  
+  // Store the response data
+  recordCreated(data);
+  
+  if (data.order.quote.status === 'all-line-items-unquotable') {
+    throw new ProductUnavailableError(`None of the items in order ${data.order.orderId} can be purchased`);
+  }
+  
+  return data;
 }
 
 /**
@@ -348,12 +650,14 @@ export async function createOrder(options: OrderOptions): Promise<OrderResponse>
  * @param apiKey Crossmint API key
  * @param shippingAddress Shipping address
  * @returns Updated order response
+ * @throws InvalidAddressError if the address is malformed
  */
 export async function updateOrderWithShippingAddress(
   orderId: string,
   apiKey: string,
-  shippingAddress: ShippingAddress
+  address: ShippingAddress
 ): Promise<OrderResponse> {
+  const shippingAddress = validateShippingAddress(address);
   const requestBody: {
     recipient: {
       physicalAddress: {
@@ -384,23 +688,88 @@ export async function updateOrderWithShippingAddress(
   }
   
   try {
-    const apiBaseUrl = getApiBaseUrl(apiKey);
-    const response = await axios.patch(`${apiBaseUrl}/orders/${orderId}`, requestBody, {
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-KEY': apiKey
-      }
-    });
+    const data = await createCrossmintClient(apiKey).updateOrder<OrderResponse>(orderId, requestBody);
     
-    return response.data;
+    recordOrderAddressUpdated(orderId, shippingAddress, data.order?.quote?.status);
+    
+    return data;
   } catch (error) {
-    const axiosError = error as AxiosError;
-    if (axiosError.response) {
-      throw new Error(`Failed to update order: ${axiosError.response.status} - ${JSON.stringify(axiosError.response.data)}`);
-    } else {
-      throw new Error(`Failed to update order: ${String(error)}`);
+    throw toApiError('update order', error);
+  }
+}
+
+/**
+ * Switch an order to another payer wallet and chain
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param chain New chain
+ * @param payerAddress New payer wallet address
+ * @returns Updated order
+ */
+export async function updateOrderPayment(
+  orderId: string,
+  apiKey: string,
+  chain: string,
+  payerAddress: string
+): Promise<OrderResponse> {
+  const requestBody = {
+    payment: {
+      method: getChain(chain).paymentMethod,
+      currency: 'usdc',
+      payerAddress
     }
+  };
+  
+  try {
+    const data = await createCrossmintClient(apiKey).updateOrder<OrderResponse>(orderId, requestBody);
+    recordOrderPayerUpdated(orderId, requestBody.payment.method, payerAddress);
+    return data;
+  } catch (error) {
+    throw toApiError('update order payment', error);
+  }
+}
+
+/**
+ * Record the status seen in an order status response in the local order history, including refunds
+ * @param orderId Order ID
+ * @param statusResponse Order status response
+ */
+export function recordStatusResponse(orderId: string, statusResponse: OrderStatusResponse): void {
+  const order = statusResponse.order || statusResponse;
+  recordOrderStatus(orderId, {
+    phase: order.phase,
+    paymentStatus: order.payment?.status,
+    quoteStatus: order.quote?.status,
+    totalPrice: order.quote?.totalPrice
+  });
+  recordRefundStatus(orderId, statusResponse);
+}
+
+/**
+ * Bring an order returned by the API into the OrderStatusResponse shape
+ * @param data Order status response, or an order with orderId, phase and quote at the top level
+ * @returns Order status response with an 'order' property
+ */
+export function normalizeOrderStatusResponse(data: any): OrderStatusResponse {
+  // Handle the case where the API response structure is different from what we expect
+  
+  // If the response doesn't have an 'order' property but has 'orderId', 'phase', and 'quote' at the top level,
+  // transform it to match our expected structure
+  if (!data.order && data.orderId) {
+    return {
+      order: {
+        orderId: data.orderId,
+        phase: data.phase || 'unknown',
+        quote: data.quote || { status: 'unknown' },
+        lineItems: data.lineItems,
+        payment: data.payment || { status: 'unknown', method: 'unknown', currency: 'unknown' }
+      },
+      // Also keep the original structure for reference
+      ...data
+    };
   }
+  
+  return data;
 }
 
 /**
@@ -413,7 +782,7 @@ export async function getOrderStatus(orderId: string, apiKey: string): Promise<O
   // Check if we're in test mode
   if (process.env.NODE_ENV === 'test' || orderId.startsWith('mock-order-')) {
     console.log('Running in test mode, returning mock status response');
-    return {
+    const mockResponse: OrderStatusResponse = {
       order: {
         orderId: orderId,
         phase: 'payment',
@@ -422,49 +791,25 @@ export async function getOrderStatus(orderId: string, apiKey: string): Promise<O
         }
       }
     };
+    recordStatusResponse(orderId, mockResponse);
+    return mockResponse;
   }
   
   try {
     // Use the exact endpoint from the Crossmint API documentation
-    const apiBaseUrl = getApiBaseUrl(apiKey);
-    const url = `${apiBaseUrl}/orders/${orderId}`;
+    const data = await createCrossmintClient(apiKey).getOrder(orderId);
     
-    const response = await axios.get(url, {
-      headers: {
-        'X-API-KEY': apiKey,
-        'Content-Type': 'application/json'
-      }
-    });
-    
-    // Handle the case where the API response structure is different from what we expect
-    const data = response.data;
-    
-    // If the response doesn't have an 'order' property but has 'orderId', 'phase', and 'quote' at the top level,
-    // transform it to match our expected structure
-    if (!data.order && data.orderId) {
-      const transformedData = {
-        order: {
-          orderId: data.orderId,
-          phase: data.phase || 'unknown',
-          quote: data.quote || { status: 'unknown' },
-          payment: data.payment || { status: 'unknown', method: 'unknown', currency: 'unknown' }
-        },
-        // Also keep the original structure for reference
-        ...data
-      };
-      return transformedData;
-    }
-    
-    return data;
+    const statusResponse = normalizeOrderStatusResponse(data);
+    recordStatusResponse(orderId, statusResponse);
+    return statusResponse;
   } catch (error) {
     const axiosError = error as AxiosError;
     if (axiosError.response) {
       console.error(`API Error Response: ${JSON.stringify(axiosError.response.data)}`);
-      throw new Error(`Failed to get order status: ${axiosError.response.status} - ${JSON.stringify(axiosError.response.data)}`);
     } else {
       console.error(`Error getting order status: ${String(error)}`);
-      throw new Error(`Failed to get order status: ${String(error)}`);
     }
+    throw toApiError('get order status', error);
   }
 }
 
@@ -474,6 +819,17 @@ export async function getOrderStatus(orderId: string, apiKey: string): Promise<O
  * @returns Order ID and status
  */
 export async function buyProductWithCrypto(options: OrderOptions): Promise<{ orderId: string; status: string }> {
+  // Reject products blocked by the spend policy before an order is created
+  enforceProductPolicy(getOrderLineItems(options).map(getProductReference));
+
+  // Make sure the payer holds USDC and gas on the chosen chain before an order is created
+  // Solana balances are not read yet, the cluster rejects underfunded transactions when they are submitted
+  const payerAddress = await getPayerAddress(options);
+  const chain = getOrderChain(options.apiKey, options.chain);
+  if (payerAddress && getChain(chain).family === 'evm') {
+    await assertWalletFunds(payerAddress, chain, {}, options.provider);
+  }
+
   // Create initial order
   const orderResponse = await createOrder(options);
   const orderId = orderResponse.order.orderId;
@@ -518,51 +874,157 @@ export async function waitForPaymentPreparation(
   maxAttempts: number = DEFAULT_POLLING_MAX_ATTEMPTS,
   delayMs: number = DEFAULT_POLLING_DELAY_MS
 ): Promise<OrderStatusResponse> {
-  let attempts = 0;
-  let lastPhase = '';
-  let lastPaymentStatus = '';
+  const events = watchOrder(orderId, {
+    apiKey,
+    initialDelayMs: delayMs,
+    backoffFactor: 1,
+    maxAttempts,
+    maxConsecutiveErrors: maxAttempts
+  });
   
-  while (attempts < maxAttempts) {
-    attempts++;
-    
-    try {
-      // Use the Get Order API to check the order status
-      const statusResponse = await getOrderStatus(orderId, apiKey);
-      const order = statusResponse.order || statusResponse;
-      
+  try {
+    for await (const event of events) {
       // Only log phase and payment status changes
-      const currentPhase = order.phase || 'unknown';
-      const currentPaymentStatus = order.payment?.status || 'unknown';
-      
-      if (currentPhase !== lastPhase) {
-        console.log(`Order phase: ${currentPhase}`);
-        lastPhase = currentPhase;
-      }
-      
-      if (currentPaymentStatus !== lastPaymentStatus) {
-        console.log(`Payment status: ${currentPaymentStatus}`);
-        lastPaymentStatus = currentPaymentStatus;
-      }
-      
-      // Check if payment preparation is available
-      if (order.payment?.preparation?.serializedTransaction) {
-        return statusResponse;
-      }
-      
-      // Check if the order is in a terminal state that won't lead to payment
-      if (order.payment?.status === 'failed' || order.payment?.status === 'canceled') {
-        throw new Error(`Order payment status is ${order.payment.status}. Cannot proceed with payment.`);
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, delayMs));
-    } catch (error) {
-      if (attempts >= maxAttempts) {
-        throw error;
+      if (event.type === 'phase-changed') {
+        console.log(`Order phase: ${event.phase}`);
+      } else if (event.type === 'payment-status-changed') {
+        console.log(`Payment status: ${event.paymentStatus}`);
+        if (event.paymentStatus === 'crypto-payer-insufficient-funds') {
+          throw new InsufficientFundsError();
+        }
+      } else if (event.type === 'quote-status-changed') {
+        // Check if the order is in a state that won't lead to payment
+        if (event.quoteStatus === 'requires-physical-address') {
+          throw new AddressRequiredError();
+        }
+        if (event.quoteStatus === 'expired') {
+          const order = event.status.order || event.status;
+          throw new QuoteExpiredError(orderId, order.quote?.expiresAt);
+        }
+      } else if (event.type === 'preparation-ready') {
+        return event.status;
+      } else if (event.type === 'terminal') {
+        throw new CryptoBuyerError(`Order ${orderId} is ${event.state}. Cannot proceed with payment.`);
       }
-      console.error(`Error polling order status: ${error instanceof Error ? error.message : String(error)}`);
-      await new Promise(resolve => setTimeout(resolve, delayMs));
     }
+  } catch (error) {
+    if (error instanceof PollingTimeoutError) {
+      throw new PollingTimeoutError(`Payment preparation not available after ${maxAttempts} attempts`);
+    }
+    throw error;
   }
   
-  throw new Error(`Payment preparation not available after ${maxAttempts} attempts`);
+  throw new PollingTimeoutError(`Payment preparation not available after ${maxAttempts} attempts`);
 }
+
+/**
+ * Summarize the quote of an order from its status response
+ * @param statusResponse Order status response
+ * @returns Quote summary
+ */
+export function summarizeOrderQuote(statusResponse: OrderStatusResponse): OrderQuoteSummary {
+  const order = statusResponse.order || statusResponse;
+  const quote = order.quote;
+  
+  return {
+    orderId: order.orderId || '',
+    status: quote?.status || 'unknown',
+    chain: order.payment?.method || 'unknown',
+    currency: quote?.totalPrice?.currency || order.payment?.currency || 'unknown',
+    totalPrice: quote?.totalPrice,
+    quotedAt: quote?.quotedAt,
+    expiresAt: quote?.expiresAt,
+    lineItems: (statusResponse.order?.lineItems || []).map(lineItem => ({
+      name: lineItem.metadata?.name,
+      description: lineItem.metadata?.description,
+      imageUrl: lineItem.metadata?.imageUrl,
+      quantity: lineItem.quantity ?? lineItem.callData?.quantity,
+      unitPrice: lineItem.quote?.charges?.unit,
+      totalPrice: lineItem.quote?.totalPrice
+    }))
+  };
+}
+
+/**
+ * Check whether a quote has passed its expiry time
+ * @param quote Quote summary
+ * @param now Current time
+ * @returns True if the quote has expired
+ */
+export function isQuoteExpired(quote: Pick<OrderQuoteSummary, 'expiresAt'>, now: Date = new Date()): boolean {
+  return quote.expiresAt !== undefined && new Date(quote.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Check that a quote can still be paid
+ * @param quote Quote summary
+ * @throws AddressRequiredError, ProductUnavailableError or QuoteExpiredError if it cannot
+ */
+export function assertQuotePayable(quote: OrderQuoteSummary): void {
+  if (quote.status === 'requires-physical-address') {
+    throw new AddressRequiredError();
+  }
+  if (quote.status === 'all-line-items-unquotable') {
+    throw new ProductUnavailableError(`None of the items in order ${quote.orderId} can be purchased`);
+  }
+  if (quote.status === 'expired' || isQuoteExpired(quote)) {
+    throw new QuoteExpiredError(quote.orderId, quote.expiresAt);
+  }
+  if (quote.status !== 'valid') {
+    throw new CryptoBuyerError(`Quote for order ${quote.orderId} is ${quote.status}. Cannot proceed with payment.`);
+  }
+}
+
+/**
+ * Create an order and return its quote without paying for it
+ * @param options Order options
+ * @returns Quote summary
+ */
+export async function quoteOrder(options: OrderOptions): Promise<OrderQuoteSummary> {
+  const { orderId } = await buyProductWithCrypto(options);
+  const statusResponse = await getOrderStatus(orderId, options.apiKey);
+  
+  return { ...summarizeOrderQuote(statusResponse), orderId };
+}
+
+/**
+ * Pay for a previously created order once its payment preparation is available
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param signer Signer of the transaction, or a private key; Solana orders need a Solana keypair
+ * @param spendContext Products used to check the spend policy
+ * @param options Set approved when paying from the approval workflow, which may pay orders pending approval
+ * @returns Payment receipt
+ * @throws OrderCanceledError if the order was canceled
+ * @throws ApprovalRequiredError if the order is pending approval or was rejected
+ */
+export async function payForOrder(
+  orderId: string,
+  apiKey: string,
+  signer: SignerLike,
+  spendContext: SpendContext = {},
+  options: { approved?: boolean } = {}
+): Promise<PaymentReceipt> {
+  // Canceled orders are never paid, even while the API would still accept the payment
+  if (getOrderRecord(orderId)?.canceledAt) {
+    throw new OrderCanceledError(orderId);
+  }
+  
+  // Orders parked for approval are paid by approveOrder only, never around it
+  const approvalStatus = getApprovalRequest(orderId)?.status;
+  if (
+    approvalStatus === 'rejected' ||
+    ((approvalStatus === 'pending' || approvalStatus === 'payment-failed') && !options.approved)
+  ) {
+    throw new ApprovalRequiredError(orderId, approvalStatus);
+  }
+  
+  const statusResponse = await waitForPaymentPreparation(orderId, apiKey);
+  const order = statusResponse.order || statusResponse;
+  
+  // Never pay for a quote that is no longer valid
+  assertQuotePayable({ ...summarizeOrderQuote(statusResponse), orderId });
+  
+  console.log('Processing payment...');
+  return processPayment(order as Order, signer, { apiKey, ...spendContext });
+}
\ No newline at end of file
@@ -0,0 +1,363 @@
+import type { OrderLineItem, ShippingAddress } from './index';
+import { getDataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+export type OrderEventType =
+  | 'created'
+  | 'address-updated'
+  | 'payer-updated'
+  | 'status-changed'
+  | 'payment-confirmed'
+  | 'canceled'
+  | 'refund-awaited'
+  | 'refund-completed';
+
+/**
+ * Something that happened to an order, in the order it was observed
+ */
+export interface OrderEvent {
+  timestamp: string;
+  type: OrderEventType;
+  phase?: string;
+  paymentStatus?: string;
+  quoteStatus?: string;
+  transactionHash?: string;
+  reason?: string;
+}
+
+/**
+ * Refund of a paid order whose delivery failed, as needed to reconcile it
+ */
+export interface OrderRefund {
+  // Formatted amount, e.g. "9.79"
+  amount: string;
+  currency: string;
+  chain: string;
+  transactionHash?: string;
+  // Whether the refund was reported by the API or found as a USDC transfer back to the payer
+  detectedBy: 'api' | 'transfer';
+  detectedAt: string;
+}
+
+/**
+ * Locally stored record of an order created by this tool
+ */
+export interface OrderRecord {
+  orderId: string;
+  createdAt: string;
+  updatedAt: string;
+  lineItems: OrderLineItem[];
+  chain: string;
+  payerAddress?: string;
+  email?: string;
+  shippingAddress?: ShippingAddress;
+  quoteStatus?: string;
+  phase?: string;
+  paymentStatus?: string;
+  totalPrice?: {
+    amount: string;
+    currency: string;
+  };
+  transactionHash?: string;
+  blockNumber?: number;
+  // Set once the order is canceled; canceled orders are never paid
+  canceledAt?: string;
+  cancelReason?: string;
+  refund?: OrderRefund;
+  // Set when the delivery of a paid order failed, until the refund is found
+  awaitingRefundSince?: string;
+  // Last block searched for a refund transfer, so the next check continues from there
+  refundScannedBlock?: number;
+  events: OrderEvent[];
+}
+
+/**
+ * Filters for listing stored orders
+ */
+export interface OrderRecordFilter {
+  // Matches the order phase, payment status or quote status, or "canceled", "refunded" and "awaiting-refund"
+  status?: string;
+  source?: string;
+  since?: Date;
+  until?: Date;
+}
+
+interface OrderHistoryStore {
+  orders: Record<string, OrderRecord>;
+}
+
+/**
+ * Get the path of the order history file
+ * @returns orders.json in the data directory
+ */
+export function getOrderHistoryPath(): string {
+  return getDataFilePath('orders.json');
+}
+
+function loadOrderHistory(): OrderHistoryStore {
+  return readJsonFile<OrderHistoryStore>(getOrderHistoryPath(), { orders: {} });
+}
+
+/**
+ * Apply a change to the stored order history
+ * Failures are only logged, because losing a history entry must never abort a purchase
+ */
+function updateOrderHistory(update: (store: OrderHistoryStore) => void): void {
+  try {
+    const store = loadOrderHistory();
+    update(store);
+    writeJsonFile(getOrderHistoryPath(), store);
+  } catch (error) {
+    console.error(`Warning: failed to update order history: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Record a newly created order
+ * @param record Order details known at creation time
+ */
+export function recordOrderCreated(
+  record: Omit<OrderRecord, 'createdAt' | 'updatedAt' | 'events'>
+): void {
+  const timestamp = new Date().toISOString();
+
+  updateOrderHistory(store => {
+    store.orders[record.orderId] = {
+      ...record,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      events: [{ timestamp, type: 'created', quoteStatus: record.quoteStatus }]
+    };
+  });
+}
+
+/**
+ * Record the shipping address added to an order
+ * @param orderId Order ID
+ * @param shippingAddress Shipping address
+ * @param quoteStatus Quote status after the update
+ */
+export function recordOrderAddressUpdated(orderId: string, shippingAddress: ShippingAddress, quoteStatus?: string): void {
+  const timestamp = new Date().toISOString();
+
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record) {
+      return;
+    }
+
+    record.shippingAddress = shippingAddress;
+    record.quoteStatus = quoteStatus || record.quoteStatus;
+    record.updatedAt = timestamp;
+    record.events.push({ timestamp, type: 'address-updated', quoteStatus });
+  });
+}
+
+/**
+ * Record a change of the wallet and chain that will pay for an order
+ * @param orderId Order ID
+ * @param chain New payment method
+ * @param payerAddress New payer wallet address
+ */
+export function recordOrderPayerUpdated(orderId: string, chain: string, payerAddress: string): void {
+  const timestamp = new Date().toISOString();
+
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record) {
+      return;
+    }
+
+    record.chain = chain;
+    record.payerAddress = payerAddress;
+    record.updatedAt = timestamp;
+    record.events.push({ timestamp, type: 'payer-updated' });
+  });
+}
+
+/**
+ * Record the status of an order as seen while polling, adding an event only when something changed
+ * @param orderId Order ID
+ * @param status Observed phase, payment status, quote status and total price
+ */
+export function recordOrderStatus(
+  orderId: string,
+  status: Pick<OrderRecord, 'phase' | 'paymentStatus' | 'quoteStatus' | 'totalPrice'>
+): void {
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record) {
+      return;
+    }
+
+    const changed =
+      (status.phase !== undefined && status.phase !== record.phase) ||
+      (status.paymentStatus !== undefined && status.paymentStatus !== record.paymentStatus) ||
+      (status.quoteStatus !== undefined && status.quoteStatus !== record.quoteStatus);
+
+    record.totalPrice = status.totalPrice || record.totalPrice;
+    if (!changed) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    record.phase = status.phase ?? record.phase;
+    record.paymentStatus = status.paymentStatus ?? record.paymentStatus;
+    record.quoteStatus = status.quoteStatus ?? record.quoteStatus;
+    record.updatedAt = timestamp;
+    record.events.push({
+      timestamp,
+      type: 'status-changed',
+      phase: status.phase,
+      paymentStatus: status.paymentStatus,
+      quoteStatus: status.quoteStatus
+    });
+  });
+}
+
+/**
+ * Record the confirmed payment transaction of an order
+ * @param orderId Order ID
+ * @param payment Payer wallet, transaction hash, block number and amount paid
+ */
+export function recordOrderPayment(
+  orderId: string,
+  payment: Required<Pick<OrderRecord, 'transactionHash' | 'blockNumber'>> & Pick<OrderRecord, 'payerAddress' | 'totalPrice'>
+): void {
+  const timestamp = new Date().toISOString();
+
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record) {
+      return;
+    }
+
+    record.transactionHash = payment.transactionHash;
+    record.blockNumber = payment.blockNumber;
+    record.payerAddress = payment.payerAddress || record.payerAddress;
+    record.totalPrice = payment.totalPrice || record.totalPrice;
+    record.updatedAt = timestamp;
+    record.events.push({ timestamp, type: 'payment-confirmed', transactionHash: payment.transactionHash });
+  });
+}
+
+/**
+ * Record that an order was canceled
+ * Unlike other history updates, failures are thrown: a cancellation that is not stored would not stop a later payment
+ * @param orderId Order ID
+ * @param reason Optional reason for the cancellation
+ * @returns Updated order record
+ * @throws Error if the order is not in the order history
+ */
+export function recordOrderCanceled(orderId: string, reason?: string): OrderRecord {
+  const store = loadOrderHistory();
+  const record = store.orders[orderId];
+  if (!record) {
+    throw new Error(`Order ${orderId} is not in the local order history`);
+  }
+
+  const timestamp = new Date().toISOString();
+  record.canceledAt = timestamp;
+  record.cancelReason = reason;
+  record.updatedAt = timestamp;
+  record.events.push({ timestamp, type: 'canceled', reason });
+  writeJsonFile(getOrderHistoryPath(), store);
+
+  return record;
+}
+
+/**
+ * Record that the delivery of a paid order failed and its refund is awaited
+ * @param orderId Order ID
+ */
+export function recordOrderAwaitingRefund(orderId: string): void {
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record || record.awaitingRefundSince || record.refund) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    record.awaitingRefundSince = timestamp;
+    record.updatedAt = timestamp;
+    record.events.push({ timestamp, type: 'refund-awaited' });
+  });
+}
+
+/**
+ * Record the completed refund of an order
+ * @param orderId Order ID
+ * @param refund Refunded amount, chain and transaction
+ */
+export function recordOrderRefund(orderId: string, refund: OrderRefund): void {
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (!record) {
+      return;
+    }
+
+    record.refund = refund;
+    record.updatedAt = refund.detectedAt;
+    record.events.push({ timestamp: refund.detectedAt, type: 'refund-completed', transactionHash: refund.transactionHash });
+  });
+}
+
+/**
+ * Record how far the chain has been searched for a refund transfer
+ * @param orderId Order ID
+ * @param blockNumber Last block searched
+ */
+export function recordOrderRefundScan(orderId: string, blockNumber: number): void {
+  updateOrderHistory(store => {
+    const record = store.orders[orderId];
+    if (record) {
+      record.refundScannedBlock = blockNumber;
+    }
+  });
+}
+
+/**
+ * Get a stored order record
+ * @param orderId Order ID
+ * @returns Order record, or undefined if the order was not created by this tool
+ */
+export function getOrderRecord(orderId: string): OrderRecord | undefined {
+  return loadOrderHistory().orders[orderId];
+}
+
+/**
+ * List stored orders, newest first
+ * @param filter Optional status, source and date filters
+ * @returns Matching order records
+ */
+export function listOrderRecords(filter: OrderRecordFilter = {}): OrderRecord[] {
+  const status = filter.status?.toLowerCase();
+  const source = filter.source?.toLowerCase();
+
+  return Object.values(loadOrderHistory().orders)
+    .filter(record => {
+      const statuses = [
+        record.phase,
+        record.paymentStatus,
+        record.quoteStatus,
+        record.canceledAt ? 'canceled' : undefined,
+        record.refund ? 'refunded' : undefined,
+        record.awaitingRefundSince && !record.refund ? 'awaiting-refund' : undefined
+      ];
+      if (status && !statuses.some(value => value?.toLowerCase() === status)) {
+        return false;
+      }
+      if (source && !record.lineItems.some(lineItem => lineItem.source.toLowerCase() === source)) {
+        return false;
+      }
+
+      const createdAt = new Date(record.createdAt);
+      if (filter.since && createdAt < filter.since) {
+        return false;
+      }
+      if (filter.until && createdAt > filter.until) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,97 @@
+import type { OrderQuoteSummary, OrderStatusResponse, QuoteLineItem } from './index';
+import type { ApprovalRequest } from './approvals';
+import type { OrderRecord, OrderRefund } from './order-history';
+import type { WalletBalance } from './wallet';
+import type { AddressProfile } from './address-book';
+import type { LineItemDelivery } from './tracking';
+import { summarizeOrderQuote } from './index';
+import { ApiError } from './errors';
+
+/**
+ * Error details included in the JSON output of a failed command
+ */
+export interface CommandErrorOutput {
+  // Name of the error class, e.g. "QuoteExpiredError"
+  type: string;
+  message: string;
+  exitCode: number;
+  // HTTP status and response body for API errors
+  status?: number;
+  body?: unknown;
+}
+
+/**
+ * JSON document printed on stdout by every CLI command when --json is passed
+ * Field names are part of the CLI's public interface: add new fields, never rename or remove existing ones
+ */
+export interface CommandOutput {
+  command: string;
+  ok: boolean;
+  orderId?: string;
+  phase?: string;
+  paymentStatus?: string;
+  quote?: OrderQuoteSummary;
+  lineItems?: QuoteLineItem[];
+  // Delivery status, carrier, tracking number and recipient of each line item (track)
+  deliveries?: LineItemDelivery[];
+  transactionHash?: string;
+  blockNumber?: number;
+  // Block explorer page of the payment transaction
+  explorerUrl?: string;
+  approval?: ApprovalRequest;
+  approvals?: ApprovalRequest[];
+  order?: OrderRecord;
+  orders?: OrderRecord[];
+  // Refund of a paid order, once it has been found
+  refund?: OrderRefund;
+  // Registered product sources, e.g. { name: "amazon", origin: "built-in" }
+  sources?: Array<{ name: string; origin: string }>;
+  balances?: WalletBalance[];
+  addressProfile?: AddressProfile;
+  addressProfiles?: AddressProfile[];
+  defaultAddressProfile?: string;
+  // Wallet and chain that paid or will pay for the order
+  payer?: {
+    name?: string;
+    address: string;
+    chain: string;
+  };
+  error?: CommandErrorOutput;
+}
+
+/**
+ * Copy the order ID, phase, payment status, quote and line items of an order status response into command output
+ * @param output Command output to update
+ * @param statusResponse Order status response
+ */
+export function applyOrderStatus(output: CommandOutput, statusResponse: OrderStatusResponse): void {
+  const order = statusResponse.order || statusResponse;
+  const quote = summarizeOrderQuote(statusResponse);
+
+  output.orderId = order.orderId || output.orderId;
+  output.phase = order.phase || 'unknown';
+  output.paymentStatus = order.payment?.status || 'unknown';
+  output.quote = { ...quote, orderId: quote.orderId || output.orderId || '' };
+  output.lineItems = quote.lineItems;
+}
+
+/**
+ * Describe an error for JSON output
+ * @param error Error thrown by a command
+ * @param exitCode Exit code the command will exit with
+ * @returns Error details
+ */
+export function describeError(error: unknown, exitCode: number): CommandErrorOutput {
+  const description: CommandErrorOutput = {
+    type: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error),
+    exitCode
+  };
+
+  if (error instanceof ApiError) {
+    description.status = error.status;
+    description.body = error.body;
+  }
+
+  return description;
+}
@@ -1,5 +1,26 @@
 import { ethers } from 'ethers';
 import dotenv from 'dotenv';
+import { enforceSpendPolicy, recordSpend, ProductReference, SpendRequest } from './policy';
+import { recordOrderPayment } from './order-history';
+import { assertPaymentTransaction, assertSolanaPaymentTransaction, decodeTransfer, verifyGasCost } from './verification';
+import { getChainProvider, getSolanaRpcClient } from './rpc';
+import { CHAINS, findChainByPaymentMethod, getExplorerTransactionUrl } from './chains';
+import { SignerLike, toEvmSigner, toSigner } from './signers';
+import {
+  decodeSolanaTransaction,
+  sendSolanaTransaction,
+  signSolanaTransaction,
+  SolanaKeypair,
+  waitForSolanaConfirmation
+} from './solana';
+import { assertWalletFunds, estimateMaxGasCost } from './wallet';
+import {
+  AddressRequiredError,
+  InsufficientFundsError,
+  ProductUnavailableError,
+  TransactionRevertedError,
+  TransactionVerificationError
+} from './errors';
 
 dotenv.config();
 
@@ -45,6 +66,28 @@ export interface Order {
   [key: string]: any;
 }
 
+/**
+ * Outcome of a confirmed payment, the same on every chain
+ */
+export interface PaymentReceipt {
+  chain: string;
+  // Transaction hash on EVM chains, transaction signature on Solana
+  transactionHash: string;
+  // Block number on EVM chains, slot on Solana
+  blockNumber: number;
+  explorerUrl?: string;
+  // Full receipt of EVM payments
+  evmReceipt?: ethers.providers.TransactionReceipt;
+}
+
+/**
+ * Context used to check a payment against the spend policy
+ */
+export interface SpendContext {
+  apiKey?: string;
+  products?: ProductReference[];
+}
+
 /**
  * Get wallet address from private key
  * @param privateKey Ethereum private key
@@ -58,22 +101,36 @@ export function getWalletAddressFromPrivateKey(privateKey: string): string {
 /**
  * Process payment for an order
  * @param order Order to process payment for
- * @param privateKey Private key to sign the transaction
- * @returns Transaction receipt
+ * @param signer Signer of the transaction, or a private key; Solana orders need a Solana keypair
+ * @param spendContext API key and products used to check the spend policy
+ * @returns Payment receipt
  */
-export async function processPayment(order: Order, privateKey: string): Promise<ethers.providers.TransactionReceipt> {
+export async function processPayment(
+  order: Order,
+  signer: SignerLike,
+  spendContext: SpendContext = {}
+): Promise<PaymentReceipt> {
   // Check for insufficient funds
   const isInsufficientFunds = order.payment.status === 'crypto-payer-insufficient-funds';
   if (isInsufficientFunds) {
-    throw new Error('Insufficient funds');
+    throw new InsufficientFundsError();
   }
 
   // Check if physical address is required
   const isRequiresPhysicalAddress = order.quote.status === 'requires-physical-address';
   if (isRequiresPhysicalAddress) {
-    throw new Error('recipient.physicalAddress is required');
+    throw new AddressRequiredError();
   }
 
+  // Check the quote against the spend policy before anything is signed
+  const walletAddress = await toSigner(signer).getAddress();
+  const spendRequest: SpendRequest = {
+    ...spendContext,
+    walletAddress,
+    totalPrice: order.quote.totalPrice
+  };
+  enforceSpendPolicy(spendRequest);
+
   // Log the payment status
   console.log(`Payment status: ${order.payment.status}`);
   console.log(`Payment method: ${order.payment.method}`);
@@ -89,7 +146,7 @@ export async function processPayment(order: Order, privateKey: string): Promise<
       : undefined;
   
   if (!serializedTransaction) {
-    throw new Error(
+    throw new ProductUnavailableError(
       `No serialized transaction found for order, this item may not be available for purchase:\n\n ${JSON.stringify(
         order,
         null,
@@ -98,36 +155,123 @@ export async function processPayment(order: Order, privateKey: string): Promise<
     );
   }
 
-  // Determine the correct RPC URL based on the payment method
-  // If payment method is "base" or "polygon", use mainnet; if "base-sepolia" or "polygon-amoy", use testnet
-  let rpcUrl: string;
-  if (order.payment.method === 'base') {
-    rpcUrl = 'https://mainnet.base.org';
-  } else if (order.payment.method === 'base-sepolia') {
-    rpcUrl = 'https://sepolia.base.org';
-  } else if (order.payment.method === 'polygon') {
-    rpcUrl = 'https://polygon-rpc.com/';
-  } else if (order.payment.method === 'polygon-amoy') {
-    rpcUrl = 'https://rpc-amoy.polygon.technology/';
-  } else {
-    // Default to polygon-amoy for unknown methods
-    rpcUrl = 'https://rpc-amoy.polygon.technology/';
+  const chain = findChainByPaymentMethod(order.payment.method);
+  const receipt =
+    chain && CHAINS[chain].family === 'solana'
+      ? await sendSolanaPayment(order, chain, serializedTransaction, toSigner(signer))
+      : await sendEvmPayment(order, serializedTransaction, signer, walletAddress);
+
+  recordOrderPayment(order.orderId, {
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    payerAddress: spendRequest.walletAddress,
+    totalPrice: order.quote.totalPrice
+  });
+
+  // Track the spend so budgets hold across runs
+  try {
+    recordSpend(order.orderId, spendRequest);
+  } catch (error) {
+    console.error(`Warning: failed to record spend: ${error instanceof Error ? error.message : String(error)}`);
   }
-  
-  const provider = new ethers.providers.JsonRpcProvider(rpcUrl);
-  const wallet = new ethers.Wallet(privateKey, provider);
+
+  return receipt;
+}
+
+/**
+ * Verify, sign and send the prepared transaction of an order on an EVM chain
+ * @param order Order being paid
+ * @param serializedTransaction Transaction prepared by the API
+ * @param signer Signer of the transaction, or a private key
+ * @param walletAddress Address of the signer
+ * @returns Payment receipt once the transaction is mined
+ */
+async function sendEvmPayment(
+  order: Order,
+  serializedTransaction: string,
+  signer: SignerLike,
+  walletAddress: string
+): Promise<PaymentReceipt> {
+  // Refuse to sign anything other than a USDC transfer of the quoted amount
+  const parsedTransaction = ethers.utils.parseTransaction(serializedTransaction);
+  assertPaymentTransaction(order, parsedTransaction, walletAddress);
+
+  // Verification only passes for payment methods in the chain registry
+  const chain = findChainByPaymentMethod(order.payment.method) as string;
+  const provider = await getChainProvider(chain);
+  const wallet = toEvmSigner(signer).connect(provider);
+
+  // Check the balances against the transfer and its gas before signing, the quote may have changed since the order was created
+  const requiredGas = await estimateMaxGasCost(parsedTransaction, provider);
+  const gasCostReasons = verifyGasCost(chain, requiredGas);
+  if (gasCostReasons.length > 0) {
+    throw new TransactionVerificationError(gasCostReasons);
+  }
+  await assertWalletFunds(
+    walletAddress,
+    chain,
+    { usdc: decodeTransfer(parsedTransaction)?.amount, gas: requiredGas },
+    provider
+  );
 
   try {
-    const parsedTransaction = ethers.utils.parseTransaction(serializedTransaction);
     const tx = await wallet.sendTransaction(parsedTransaction as any);
     console.log('Transaction sent! Hash:', tx.hash);
+    const explorerUrl = getExplorerTransactionUrl(chain, tx.hash);
+    console.log(`Explorer: ${explorerUrl}`);
 
     const receipt = await tx.wait();
     console.log('Transaction confirmed in block:', receipt.blockNumber);
 
-    return receipt;
+    return {
+      chain,
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      explorerUrl,
+      evmReceipt: receipt
+    };
   } catch (error) {
+    // ethers rejects tx.wait() with CALL_EXCEPTION when the mined transaction reverted
+    const txError = error as { code?: string; receipt?: ethers.providers.TransactionReceipt };
+    if (txError.code === ethers.errors.CALL_EXCEPTION && txError.receipt) {
+      throw new TransactionRevertedError(txError.receipt.transactionHash, txError.receipt.blockNumber);
+    }
+
     console.error('Error sending transaction:', error);
     throw error;
   }
 }
+
+/**
+ * Verify, sign and submit the prepared transaction of an order on Solana
+ * @param order Order being paid
+ * @param chain Solana chain the order pays on
+ * @param serializedTransaction Transaction prepared by the API
+ * @param signer Keypair of the payer
+ * @returns Payment receipt once the cluster confirms the transaction
+ */
+async function sendSolanaPayment(
+  order: Order,
+  chain: string,
+  serializedTransaction: string,
+  signer: ethers.Signer | SolanaKeypair
+): Promise<PaymentReceipt> {
+  if (!(signer instanceof SolanaKeypair)) {
+    throw new Error(`Paying on ${chain} needs a Solana keypair: use --solana-keypair or set SOLANA_KEYPAIR_FILE`);
+  }
+
+  // Refuse to sign anything other than a USDC transfer of the quoted amount
+  const transaction = decodeSolanaTransaction(serializedTransaction);
+  assertSolanaPaymentTransaction(order, transaction, signer.publicKey);
+
+  const client = await getSolanaRpcClient(chain);
+  const signature = await sendSolanaTransaction(client, signSolanaTransaction(transaction, signer));
+  console.log('Transaction sent! Signature:', signature);
+  const explorerUrl = getExplorerTransactionUrl(chain, signature);
+  console.log(`Explorer: ${explorerUrl}`);
+
+  const slot = await waitForSolanaConfirmation(client, signature);
+  console.log('Transaction confirmed in slot:', slot);
+
+  return { chain, transactionHash: signature, blockNumber: slot, explorerUrl };
+}
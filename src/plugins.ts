@@ -0,0 +1,179 @@
+import path from 'path';
+import type { ProductSource, SourceRegistry } from './index';
+import { sourceRegistry } from './index';
+import { PluginError } from './errors';
+import { getDataFilePath, readJsonFile } from './storage';
+
+/**
+ * Plugin config file listing the modules that provide product sources
+ */
+export interface PluginConfig {
+  // Local paths, relative to the config file, or installed npm package names
+  plugins: string[];
+}
+
+/**
+ * A product source plugin module that has been loaded
+ */
+export interface LoadedPlugin {
+  specifier: string;
+  // Absolute path of the module file
+  modulePath: string;
+  sources: ProductSource[];
+}
+
+// Source names become part of spend policy entries such as "amazon:B01DFKC2SO", so they cannot contain ":"
+const SOURCE_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const SOURCE_METHODS = ['extractProductId', 'createProductLocator', 'validateIdentifier'] as const;
+
+// Module files already loaded, so a plugin named both in the config file and with --plugin loads once
+const loadedModules = new Map<string, LoadedPlugin>();
+
+/**
+ * Get the path of the plugin config file
+ * @returns PLUGINS_FILE if set, otherwise plugins.json in the data directory
+ */
+export function getPluginConfigPath(): string {
+  return process.env.PLUGINS_FILE || getDataFilePath('plugins.json');
+}
+
+/**
+ * Read the plugins listed in the plugin config file
+ * @param configPath Plugin config file path
+ * @returns Plugin module specifiers, empty if the file does not exist
+ */
+export function loadPluginConfig(configPath: string = getPluginConfigPath()): string[] {
+  const config = readJsonFile<PluginConfig>(configPath, { plugins: [] });
+  if (
+    typeof config !== 'object' || config === null || !Array.isArray(config.plugins) ||
+    config.plugins.some(plugin => typeof plugin !== 'string' || !plugin)
+  ) {
+    throw new PluginError(`Invalid plugin config in ${configPath}: expected a "plugins" list of module paths or package names`);
+  }
+  return config.plugins;
+}
+
+/**
+ * Resolve a plugin specifier to a module file
+ * @param specifier Local path, e.g. "./etsy-source.js", or npm package name, e.g. "crypto-buyer-etsy"
+ * @param baseDir Directory local paths are relative to, and where packages are looked up first
+ * @returns Absolute module path
+ * @throws PluginError if the module cannot be found
+ */
+export function resolvePluginPath(specifier: string, baseDir: string): string {
+  const isLocal = specifier.startsWith('.') || path.isAbsolute(specifier);
+  try {
+    return isLocal
+      ? require.resolve(path.resolve(baseDir, specifier))
+      : require.resolve(specifier, { paths: [baseDir, process.cwd()] });
+  } catch {
+    throw new PluginError(`Cannot find plugin ${specifier}${isLocal ? ` in ${baseDir}` : ', is the package installed?'}`);
+  }
+}
+
+/**
+ * Check that a value implements ProductSource
+ * @param value Value exported by a plugin
+ * @param specifier Plugin the value came from, for error messages
+ * @returns The value as a product source
+ * @throws PluginError describing what is missing
+ */
+export function validateProductSource(value: unknown, specifier: string): ProductSource {
+  if (typeof value !== 'object' || value === null) {
+    throw new PluginError(`Plugin ${specifier} exports ${value === null ? 'null' : typeof value} instead of a product source`);
+  }
+
+  const source = value as Record<string, unknown>;
+  if (!('name' in source)) {
+    throw new PluginError(`Plugin ${specifier} exports no product source. Export a source or a list of sources as the module, default or sources`);
+  }
+  if (typeof source.name !== 'string' || !SOURCE_NAME_PATTERN.test(source.name)) {
+    throw new PluginError(
+      `Plugin ${specifier} exports a product source with invalid name ${JSON.stringify(source.name)}. ` +
+      'Use lower case letters, digits and "-"'
+    );
+  }
+  const missing = SOURCE_METHODS.filter(method => typeof source[method] !== 'function');
+  if (missing.length > 0) {
+    throw new PluginError(`Product source ${source.name} from plugin ${specifier} is missing ${missing.map(method => `${method}()`).join(', ')}`);
+  }
+  return value as ProductSource;
+}
+
+/**
+ * Get the product sources a plugin module exports
+ * A plugin exports a source or a list of sources as the module itself, as its default export or as "sources"
+ * @param exported Module exports
+ * @param specifier Plugin the module came from, for error messages
+ * @returns Validated product sources
+ * @throws PluginError if the module exports no sources or an invalid one
+ */
+export function getPluginSources(exported: unknown, specifier: string): ProductSource[] {
+  const pluginModule = exported as { default?: unknown; sources?: unknown } | null;
+  const candidates = pluginModule?.sources ?? pluginModule?.default ?? pluginModule;
+  const values = Array.isArray(candidates) ? candidates : [candidates];
+  if (values.length === 0) {
+    throw new PluginError(`Plugin ${specifier} exports no product sources`);
+  }
+  return values.map(value => validateProductSource(value, specifier));
+}
+
+/**
+ * Load a plugin module and register its product sources
+ * @param specifier Local path or npm package name
+ * @param options Directory local paths are relative to, description of where the plugin was configured, and the
+ * registry to add the sources to
+ * @returns Loaded plugin
+ * @throws PluginError if the plugin cannot be loaded, is invalid, or a source name is already registered
+ */
+export function loadPlugin(
+  specifier: string,
+  options: { baseDir?: string; configuredIn?: string; registry?: SourceRegistry } = {}
+): LoadedPlugin {
+  const { baseDir = process.cwd(), registry = sourceRegistry } = options;
+  const modulePath = resolvePluginPath(specifier, baseDir);
+  const loaded = loadedModules.get(modulePath);
+  if (loaded && loaded.sources.every(source => registry.getSource(source.name) === source)) {
+    return loaded;
+  }
+
+  let exported: unknown;
+  try {
+    exported = require(modulePath);
+  } catch (error) {
+    throw new PluginError(`Failed to load plugin ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Check every name before registering any, so a conflicting plugin adds no sources at all
+  const sources = getPluginSources(exported, specifier);
+  const origin = `plugin ${specifier}${options.configuredIn ? ` (${options.configuredIn})` : ''}`;
+  const names = new Set<string>();
+  for (const source of sources) {
+    const existing = registry.getSourceOrigin(source.name);
+    if (existing || names.has(source.name)) {
+      throw new PluginError(`Product source ${source.name} from ${origin} conflicts with the registered ${source.name} source (${existing || origin})`);
+    }
+    names.add(source.name);
+  }
+  for (const source of sources) {
+    registry.registerSource(source, origin);
+  }
+
+  const plugin = { specifier, modulePath, sources };
+  loadedModules.set(modulePath, plugin);
+  return plugin;
+}
+
+/**
+ * Load the plugins from the plugin config file, then the ones given on the command line
+ * @param specifiers Plugins given with --plugin, relative to the working directory
+ * @param configPath Plugin config file path
+ * @returns Loaded plugins
+ */
+export function loadPlugins(specifiers: string[] = [], configPath: string = getPluginConfigPath()): LoadedPlugin[] {
+  const configDir = path.dirname(path.resolve(configPath));
+  return [
+    ...loadPluginConfig(configPath).map(specifier => loadPlugin(specifier, { baseDir: configDir, configuredIn: configPath })),
+    ...specifiers.map(specifier => loadPlugin(specifier, { configuredIn: '--plugin' }))
+  ];
+}
@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import { getDataFilePath, readJsonFile, writeJsonFile } from './storage';
+import { SpendPolicyError } from './errors';
+
+export { SpendPolicyError };
+
+/**
+ * Spend limits for a single API key or wallet, in the policy currency
+ */
+export interface BudgetLimits {
+  daily?: number;
+  weekly?: number;
+  monthly?: number;
+}
+
+/**
+ * Spend policy loaded from the local policy file
+ */
+export interface SpendPolicy {
+  // Currency all amounts in the policy are expressed in (defaults to usdc)
+  currency?: string;
+  maxOrderAmount?: number;
+  budgets?: {
+    // Limits applied to every API key
+    apiKey?: BudgetLimits;
+    // Limits applied to every paying wallet
+    wallet?: BudgetLimits;
+  };
+  // Per-wallet limits, keyed by wallet address, applied on top of budgets.wallet
+  walletBudgets?: Record<string, BudgetLimits>;
+  allowedSources?: string[];
+  blockedSources?: string[];
+  // Product entries use the "<source>:<productId>" format, e.g. "amazon:B01DFKC2SO"
+  allowedProducts?: string[];
+  blockedProducts?: string[];
+}
+
+/**
+ * Product being purchased, as seen by the spend policy
+ */
+export interface ProductReference {
+  source: string;
+  productId: string;
+}
+
+/**
+ * Purchase details checked against the spend policy
+ */
+export interface SpendRequest {
+  apiKey?: string;
+  walletAddress?: string;
+  totalPrice?: {
+    amount: string;
+    currency: string;
+  };
+  products?: ProductReference[];
+}
+
+/**
+ * A completed payment recorded in the spend ledger
+ */
+export interface SpendEntry {
+  orderId: string;
+  apiKeyFingerprint?: string;
+  walletAddress?: string;
+  amount: number;
+  currency: string;
+  timestamp: string;
+}
+
+interface SpendLedger {
+  entries: SpendEntry[];
+}
+
+const DEFAULT_POLICY_CURRENCY = 'usdc';
+const BUDGET_PERIODS: Array<keyof BudgetLimits> = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Get the path of the spend policy file
+ * @returns SPEND_POLICY_FILE if set, otherwise policy.json in the data directory
+ */
+export function getSpendPolicyPath(): string {
+  return process.env.SPEND_POLICY_FILE || getDataFilePath('policy.json');
+}
+
+/**
+ * Get the path of the spend ledger file
+ * @returns spend-ledger.json in the data directory
+ */
+export function getSpendLedgerPath(): string {
+  return getDataFilePath('spend-ledger.json');
+}
+
+/**
+ * Load the spend policy from disk
+ * @param filePath Policy file path
+ * @returns Spend policy, or null if no policy file exists
+ */
+export function loadSpendPolicy(filePath: string = getSpendPolicyPath()): SpendPolicy | null {
+  const policy = readJsonFile<SpendPolicy | null>(filePath, null);
+  if (policy === null) {
+    return null;
+  }
+
+  if (typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new Error(`Invalid spend policy in ${filePath}: expected a JSON object`);
+  }
+
+  return policy;
+}
+
+/**
+ * Create a stable fingerprint for an API key so the raw key is never written to disk
+ * @param apiKey Crossmint API key
+ * @returns Short SHA-256 fingerprint
+ */
+export function getApiKeyFingerprint(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+}
+
+/**
+ * Load all recorded payments from the spend ledger
+ * @returns Spend entries
+ */
+export function loadSpendEntries(): SpendEntry[] {
+  return readJsonFile<SpendLedger>(getSpendLedgerPath(), { entries: [] }).entries;
+}
+
+/**
+ * Record a completed payment in the spend ledger
+ * @param orderId Order ID
+ * @param request Purchase details
+ * @param timestamp Time of the payment
+ */
+export function recordSpend(orderId: string, request: SpendRequest, timestamp: Date = new Date()): void {
+  if (!request.totalPrice) {
+    return;
+  }
+
+  const ledgerPath = getSpendLedgerPath();
+  const ledger = readJsonFile<SpendLedger>(ledgerPath, { entries: [] });
+  ledger.entries.push({
+    orderId,
+    apiKeyFingerprint: request.apiKey ? getApiKeyFingerprint(request.apiKey) : undefined,
+    walletAddress: request.walletAddress?.toLowerCase(),
+    amount: Number(request.totalPrice.amount),
+    currency: request.totalPrice.currency.toLowerCase(),
+    timestamp: timestamp.toISOString()
+  });
+  writeJsonFile(ledgerPath, ledger);
+}
+
+/**
+ * Get the start of a budget period in UTC
+ * @param period Budget period
+ * @param now Current time
+ * @returns Start of the period
+ */
+function getPeriodStart(period: keyof BudgetLimits, now: Date): Date {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+
+  if (period === 'daily') {
+    return new Date(Date.UTC(year, month, day));
+  } else if (period === 'weekly') {
+    // Weeks start on Monday
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    return new Date(Date.UTC(year, month, day - daysSinceMonday));
+  } else {
+    return new Date(Date.UTC(year, month, 1));
+  }
+}
+
+/**
+ * Sum the recorded spend matching a filter since a given time
+ */
+function sumSpend(entries: SpendEntry[], since: Date, currency: string, matches: (entry: SpendEntry) => boolean): number {
+  return entries
+    .filter(entry => entry.currency === currency && new Date(entry.timestamp) >= since && matches(entry))
+    .reduce((total, entry) => total + entry.amount, 0);
+}
+
+/**
+ * Check the products of a purchase against the policy's allow and block lists
+ * @param policy Spend policy
+ * @param products Products being purchased, if known
+ * @returns List of violations, empty if the products are allowed
+ */
+export function evaluateProductPolicy(policy: SpendPolicy, products?: ProductReference[]): string[] {
+  const violations: string[] = [];
+  const needsProducts = (policy.allowedSources?.length || 0) > 0 || (policy.allowedProducts?.length || 0) > 0;
+
+  if (!products || products.length === 0) {
+    if (needsProducts) {
+      violations.push('products being purchased are unknown, so the allow lists cannot be checked');
+    }
+    return violations;
+  }
+
+  const normalize = (values?: string[]) => (values || []).map(value => value.toLowerCase());
+  const allowedSources = normalize(policy.allowedSources);
+  const blockedSources = normalize(policy.blockedSources);
+  const allowedProducts = normalize(policy.allowedProducts);
+  const blockedProducts = normalize(policy.blockedProducts);
+
+  for (const product of products) {
+    const source = product.source.toLowerCase();
+    const productKey = `${source}:${product.productId.toLowerCase()}`;
+    const label = `${product.source}:${product.productId}`;
+
+    if (blockedSources.includes(source)) {
+      violations.push(`source ${product.source} is blocked`);
+    } else if (allowedSources.length > 0 && !allowedSources.includes(source)) {
+      violations.push(`source ${product.source} is not in the allowed sources`);
+    }
+
+    if (blockedProducts.includes(productKey)) {
+      violations.push(`product ${label} is blocked`);
+    } else if (allowedProducts.length > 0 && !allowedProducts.includes(productKey)) {
+      violations.push(`product ${label} is not in the allowed products`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check a purchase against the spend policy
+ * @param policy Spend policy
+ * @param request Purchase details
+ * @param entries Previously recorded spend
+ * @param now Current time
+ * @returns List of violations, empty if the purchase is allowed
+ */
+export function evaluateSpendPolicy(
+  policy: SpendPolicy,
+  request: SpendRequest,
+  entries: SpendEntry[],
+  now: Date = new Date()
+): string[] {
+  const violations = evaluateProductPolicy(policy, request.products);
+
+  const walletAddress = request.walletAddress?.toLowerCase();
+  const walletOverrides = Object.entries(policy.walletBudgets || {})
+    .filter(([address]) => address.toLowerCase() === walletAddress)
+    .map(([, limits]) => limits);
+
+  const hasPriceRules =
+    policy.maxOrderAmount !== undefined ||
+    policy.budgets?.apiKey !== undefined ||
+    policy.budgets?.wallet !== undefined ||
+    walletOverrides.length > 0;
+  if (!hasPriceRules) {
+    return violations;
+  }
+
+  if (!request.totalPrice) {
+    violations.push('quote has no total price, so spend limits cannot be checked');
+    return violations;
+  }
+
+  const policyCurrency = (policy.currency || DEFAULT_POLICY_CURRENCY).toLowerCase();
+  const currency = request.totalPrice.currency.toLowerCase();
+  const amount = Number(request.totalPrice.amount);
+
+  if (currency !== policyCurrency) {
+    violations.push(`quote currency ${request.totalPrice.currency} does not match policy currency ${policyCurrency}`);
+    return violations;
+  }
+
+  if (!Number.isFinite(amount)) {
+    violations.push(`quote total price ${request.totalPrice.amount} is not a number`);
+    return violations;
+  }
+
+  if (policy.maxOrderAmount !== undefined && amount > policy.maxOrderAmount) {
+    violations.push(`order total ${amount} ${currency} exceeds the per-order maximum of ${policy.maxOrderAmount} ${currency}`);
+  }
+
+  const checkBudget = (label: string, limits: BudgetLimits, matches: (entry: SpendEntry) => boolean) => {
+    for (const period of BUDGET_PERIODS) {
+      const limit = limits[period];
+      if (limit === undefined) {
+        continue;
+      }
+
+      const spent = sumSpend(entries, getPeriodStart(period, now), currency, matches);
+      if (spent + amount > limit) {
+        violations.push(
+          `${label} ${period} budget of ${limit} ${currency} would be exceeded (spent ${spent}, order ${amount})`
+        );
+      }
+    }
+  };
+
+  if (policy.budgets?.apiKey && request.apiKey) {
+    const fingerprint = getApiKeyFingerprint(request.apiKey);
+    checkBudget('API key', policy.budgets.apiKey, entry => entry.apiKeyFingerprint === fingerprint);
+  }
+
+  if (walletAddress) {
+    const walletLimits = [policy.budgets?.wallet, ...walletOverrides].filter(
+      (limits): limits is BudgetLimits => limits !== undefined
+    );
+    for (const limits of walletLimits) {
+      checkBudget(`wallet ${request.walletAddress}`, limits, entry => entry.walletAddress === walletAddress);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check that the products of a purchase are allowed by the local spend policy
+ * @param products Products being purchased
+ * @throws SpendPolicyError if any product is not allowed
+ */
+export function enforceProductPolicy(products: ProductReference[]): void {
+  const policy = loadSpendPolicy();
+  if (!policy) {
+    return;
+  }
+
+  const violations = evaluateProductPolicy(policy, products);
+  if (violations.length > 0) {
+    throw new SpendPolicyError(violations);
+  }
+}
+
+/**
+ * Check a purchase against the local spend policy and recorded spend
+ * @param request Purchase details
+ * @throws SpendPolicyError if the purchase is not allowed
+ */
+export function enforceSpendPolicy(request: SpendRequest): void {
+  const policy = loadSpendPolicy();
+  if (!policy) {
+    return;
+  }
+
+  const violations = evaluateSpendPolicy(policy, request, loadSpendEntries());
+  if (violations.length > 0) {
+    throw new SpendPolicyError(violations);
+  }
+}
@@ -0,0 +1,300 @@
+import { ethers } from 'ethers';
+import { getOrderStatus, OrderStatusResponse } from './index';
+import { getApprovalRequest, rejectOrder } from './approvals';
+import { getChain, getEvmChain } from './chains';
+import { getChainProvider } from './rpc';
+import { PollingTimeoutError } from './errors';
+import { getPaymentAmountTolerance } from './verification';
+import { getOrderTerminalState, sleep } from './watcher';
+import {
+  getOrderRecord,
+  listOrderRecords,
+  OrderRecord,
+  OrderRefund,
+  recordOrderAwaitingRefund,
+  recordOrderCanceled,
+  recordOrderRefund,
+  recordOrderRefundScan
+} from './order-history';
+
+/**
+ * Options for watching an order until it is refunded
+ */
+export interface WatchRefundOptions {
+  apiKey: string;
+  pollIntervalMs?: number;
+  // Overall time limit, after which a PollingTimeoutError is thrown
+  timeoutMs?: number;
+  // Stops watching quietly when aborted
+  signal?: AbortSignal;
+  // Provider used to look for refund transfers (default: the chain's configured RPC endpoints)
+  provider?: ethers.providers.Provider;
+}
+
+// Refunds are issued by hand after a failed delivery and take days, so there is no point in polling often
+const DEFAULT_REFUND_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+// Public RPC endpoints cap the block range of eth_getLogs, commonly at 1,000 to 10,000 blocks
+const DEFAULT_REFUND_SCAN_BLOCKS = 1000;
+
+const TRANSFER_INTERFACE = new ethers.utils.Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+const TRANSFER_TOPIC = TRANSFER_INTERFACE.getEventTopic('Transfer');
+
+// Phases in which Crossmint has not taken any payment for an order
+const UNPAID_PHASES = ['quote', 'payment'];
+
+/**
+ * Cancel an order that has not been paid, so this tool never pays for it
+ * Crossmint has no endpoint to cancel an order, so the cancellation is local: it is refused once Crossmint reports
+ * any payment, and an unpaid order is released by Crossmint when its quote expires, so nothing is charged
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param options Who canceled the order and why, recorded with the cancellation
+ * @returns Canceled order record
+ * @throws Error if the order is unknown or its payment has started
+ */
+export async function cancelOrder(
+  orderId: string,
+  apiKey: string,
+  options: { canceledBy?: string; reason?: string } = {}
+): Promise<OrderRecord> {
+  const record = getOrderRecord(orderId);
+  if (!record) {
+    throw new Error(`Order ${orderId} is not in the local order history`);
+  }
+  if (record.canceledAt) {
+    return record;
+  }
+
+  // A payment may be on-chain before the API reports it, so the local payment record counts too. Anything past the
+  // payment phase keeps going at Crossmint whatever is recorded here, so it cannot be canceled
+  const statusResponse = await getOrderStatus(orderId, apiKey);
+  const order = statusResponse.order || statusResponse;
+  if (record.transactionHash || order.payment?.status === 'completed' || (order.phase && !UNPAID_PHASES.includes(order.phase))) {
+    throw new Error(
+      `Order ${orderId} has already been paid and cannot be canceled: Crossmint has no endpoint to cancel orders. ` +
+      `If its delivery fails, track the refund with: refunds check ${orderId}`
+    );
+  }
+
+  // An order waiting for approval, or for a payment retry, must not be approved later
+  const approvalStatus = getApprovalRequest(orderId)?.status;
+  if (approvalStatus === 'pending' || approvalStatus === 'payment-failed') {
+    rejectOrder(orderId, options.canceledBy || 'cancel', options.reason || 'Order canceled');
+  }
+
+  return recordOrderCanceled(orderId, options.reason);
+}
+
+/**
+ * Read the refund the API reports for an order
+ * @param statusResponse Order status response
+ * @param chain Chain the order was paid on, used when the API does not name one
+ * @returns Refund, or undefined if the order has not been refunded
+ */
+export function getApiRefund(statusResponse: OrderStatusResponse, chain: string): OrderRefund | undefined {
+  const refunded = (statusResponse.order || statusResponse).payment?.refunded;
+  if (!refunded) {
+    return undefined;
+  }
+
+  return {
+    amount: refunded.amount,
+    currency: refunded.currency,
+    chain: refunded.chain || chain,
+    transactionHash: refunded.txId,
+    detectedBy: 'api',
+    detectedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Keep track of refunds as order status responses arrive, from polling or webhooks
+ * A refund the API reports is recorded right away; a failed delivery of a paid order marks the order as awaiting
+ * its refund, so `refunds check` and `refunds list` pick it up
+ * @param orderId Order ID
+ * @param statusResponse Order status response
+ */
+export function recordRefundStatus(orderId: string, statusResponse: OrderStatusResponse): void {
+  const record = getOrderRecord(orderId);
+  if (!record || record.refund) {
+    return;
+  }
+
+  const refund = getApiRefund(statusResponse, record.chain);
+  if (refund) {
+    recordOrderRefund(orderId, refund);
+    return;
+  }
+
+  const paymentStatus = (statusResponse.order || statusResponse).payment?.status;
+  const paid = Boolean(record.transactionHash) || paymentStatus === 'completed';
+  if (paid && getOrderTerminalState(statusResponse) === 'delivery-failed') {
+    recordOrderAwaitingRefund(orderId);
+  }
+}
+
+/**
+ * Look for a USDC transfer refunding a paid order
+ * The refund must come from the address the payment went to, after the payment, and return the amount paid. Crossmint
+ * takes every payment at the same address, so transfers already recorded as another order's refund are skipped.
+ * Blocks are searched in ranges of at most chunkSize blocks, and the last block searched is saved with the order so
+ * the next search continues there
+ * @param record Paid order record with its payer, payment transaction and block
+ * @param provider Provider connected to the order's chain (default: the chain's configured RPC endpoints)
+ * @param chunkSize Maximum number of blocks per log query
+ * @param tolerance Allowed relative difference between the refunded and the paid amount
+ * @returns Refund, or undefined if no refund transfer was found
+ */
+export async function findRefundTransfer(
+  record: OrderRecord,
+  provider?: ethers.providers.Provider,
+  chunkSize: number = DEFAULT_REFUND_SCAN_BLOCKS,
+  tolerance: number = getPaymentAmountTolerance()
+): Promise<OrderRefund | undefined> {
+  if (!record.payerAddress || !record.transactionHash || record.blockNumber === undefined) {
+    return undefined;
+  }
+
+  const config = getEvmChain(record.chain);
+  const chainProvider = provider || (await getChainProvider(record.chain));
+  const payer = ethers.utils.getAddress(record.payerAddress);
+
+  // Find where the payment went from the USDC transfer in the payment transaction
+  const receipt = await chainProvider.getTransactionReceipt(record.transactionHash);
+  const payment = receipt?.logs
+    .filter(log => log.address.toLowerCase() === config.usdc.address.toLowerCase() && log.topics[0] === TRANSFER_TOPIC)
+    .map(log => TRANSFER_INTERFACE.parseLog(log))
+    .find(log => ethers.utils.getAddress(log.args.from) === payer);
+  if (!payment) {
+    return undefined;
+  }
+
+  const paid = Number(ethers.utils.formatUnits(payment.args.value, config.usdc.decimals));
+  const claimed = new Set(
+    listOrderRecords({ status: 'refunded' })
+      .filter(other => other.orderId !== record.orderId)
+      .map(other => other.refund?.transactionHash?.toLowerCase())
+  );
+  const isRefund = (log: ethers.providers.Log) => {
+    const refunded = Number(ethers.utils.formatUnits(TRANSFER_INTERFACE.parseLog(log).args.value, config.usdc.decimals));
+    return log.transactionHash !== record.transactionHash &&
+      !claimed.has(log.transactionHash.toLowerCase()) &&
+      Math.abs(refunded - paid) <= paid * tolerance;
+  };
+
+  const topics = [TRANSFER_TOPIC, ethers.utils.hexZeroPad(payment.args.to, 32), ethers.utils.hexZeroPad(payer, 32)];
+  const latestBlock = await chainProvider.getBlockNumber();
+  let fromBlock = record.refundScannedBlock !== undefined ? record.refundScannedBlock + 1 : record.blockNumber;
+  let refund: ethers.providers.Log | undefined;
+  while (!refund && fromBlock <= latestBlock) {
+    const toBlock = Math.min(fromBlock + chunkSize - 1, latestBlock);
+    const logs = await chainProvider.getLogs({ address: config.usdc.address, topics, fromBlock, toBlock });
+    refund = logs.find(isRefund);
+    // Save progress after every range, so a failing endpoint does not make the next check start over
+    recordOrderRefundScan(record.orderId, toBlock);
+    fromBlock = toBlock + 1;
+  }
+  if (!refund) {
+    return undefined;
+  }
+
+  return {
+    amount: ethers.utils.formatUnits(TRANSFER_INTERFACE.parseLog(refund).args.value, config.usdc.decimals),
+    currency: 'usdc',
+    chain: record.chain,
+    transactionHash: refund.transactionHash,
+    detectedBy: 'transfer',
+    detectedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Check whether a paid order has been refunded, recording the refund once it is found
+ * The API's refund fields are checked first, then, once the delivery has failed, USDC transfers back to the payer
+ * on EVM chains
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param provider Provider used to look for refund transfers (default: the chain's configured RPC endpoints)
+ * @returns Refund, or undefined if the order has not been refunded yet
+ * @throws Error if the order is unknown, was never paid or is not awaiting a refund
+ */
+export async function checkOrderRefund(
+  orderId: string,
+  apiKey: string,
+  provider?: ethers.providers.Provider
+): Promise<OrderRefund | undefined> {
+  const record = getOrderRecord(orderId);
+  if (!record) {
+    throw new Error(`Order ${orderId} is not in the local order history`);
+  }
+  if (record.refund) {
+    return record.refund;
+  }
+  if (!record.transactionHash) {
+    throw new Error(`Order ${orderId} has not been paid, so there is nothing to refund`);
+  }
+
+  const statusResponse = await getOrderStatus(orderId, apiKey);
+  const apiRefund = getApiRefund(statusResponse, record.chain);
+  if (apiRefund) {
+    recordOrderRefund(orderId, apiRefund);
+    return apiRefund;
+  }
+
+  // Transfers back to the payer only count as a refund for an order whose delivery failed
+  if (!record.awaitingRefundSince && getOrderTerminalState(statusResponse) !== 'delivery-failed') {
+    throw new Error(`Order ${orderId} has not failed delivery, so no refund is expected`);
+  }
+
+  const refund = getChain(record.chain).family === 'evm' ? await findRefundTransfer(record, provider) : undefined;
+  if (refund) {
+    recordOrderRefund(orderId, refund);
+  }
+  return refund;
+}
+
+/**
+ * Check every order awaiting a refund
+ * @param apiKey Crossmint API key
+ * @param provider Provider used to look for refund transfers (default: the chain's configured RPC endpoints)
+ * @returns Refunds found, by order ID
+ */
+export async function checkAwaitedRefunds(
+  apiKey: string,
+  provider?: ethers.providers.Provider
+): Promise<Map<string, OrderRefund>> {
+  const refunds = new Map<string, OrderRefund>();
+  for (const record of listOrderRecords({ status: 'awaiting-refund' })) {
+    const refund = await checkOrderRefund(record.orderId, apiKey, provider);
+    if (refund) {
+      refunds.set(record.orderId, refund);
+    }
+  }
+  return refunds;
+}
+
+/**
+ * Check a paid order for its refund until the refund is found
+ * @param orderId Order ID
+ * @param options API key, poll interval, deadline and cancellation options
+ * @returns Refund, or undefined if the signal was aborted first
+ * @throws PollingTimeoutError if no refund was found in time
+ */
+export async function watchOrderRefund(orderId: string, options: WatchRefundOptions): Promise<OrderRefund | undefined> {
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_REFUND_POLL_INTERVAL_MS;
+  const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined;
+
+  while (!options.signal?.aborted) {
+    const refund = await checkOrderRefund(orderId, options.apiKey, options.provider);
+    if (refund) {
+      return refund;
+    }
+
+    if (deadline !== undefined && Date.now() + pollIntervalMs > deadline) {
+      throw new PollingTimeoutError(`Order ${orderId} was not refunded within ${options.timeoutMs}ms`);
+    }
+    await sleep(pollIntervalMs, options.signal);
+  }
+  return undefined;
+}
@@ -0,0 +1,294 @@
+import { ethers } from 'ethers';
+import { CHAINS, getChain } from './chains';
+import { RpcEndpointError, UnsupportedChainError } from './errors';
+import { getDataFilePath, readJsonFile } from './storage';
+
+const DEFAULT_RPC_TIMEOUT_MS = 10000;
+const DEFAULT_RPC_STALL_TIMEOUT_MS = 2000;
+
+// Verified providers per chain, so each chain is checked once per run
+const chainProviders = new Map<string, Promise<ethers.providers.Provider>>();
+const solanaClients = new Map<string, Promise<SolanaRpcClient>>();
+
+/**
+ * Get the environment variable holding the RPC URLs of a chain
+ * @param chain Payment method, e.g. "base-sepolia"
+ * @returns Variable name, e.g. "RPC_URLS_BASE_SEPOLIA"
+ */
+export function getRpcUrlsEnvName(chain: string): string {
+  return `RPC_URLS_${chain.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Get the path of the RPC config file
+ * @returns RPC_CONFIG_FILE if set, otherwise rpc.json in the data directory
+ */
+export function getRpcConfigPath(): string {
+  return process.env.RPC_CONFIG_FILE || getDataFilePath('rpc.json');
+}
+
+/**
+ * Read a positive number of milliseconds from the environment
+ * @param name Variable name
+ * @param fallback Value used when the variable is not set
+ * @returns Milliseconds
+ */
+function getMillisecondsFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+
+  const milliseconds = Number(value);
+  if (!Number.isInteger(milliseconds) || milliseconds <= 0) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return milliseconds;
+}
+
+/**
+ * Get the RPC endpoints of a chain, most preferred first
+ * The environment takes precedence over the RPC config file, which takes precedence over the registry's public endpoints
+ * @param chain Payment method, e.g. "base"
+ * @param configPath RPC config file path
+ * @returns RPC URLs
+ * @throws UnsupportedChainError if the payment method is not a known chain
+ */
+export function getRpcUrls(chain: string, configPath: string = getRpcConfigPath()): string[] {
+  const defaults = getChain(chain).rpcUrls;
+
+  const fromEnv = process.env[getRpcUrlsEnvName(chain)];
+  if (fromEnv) {
+    return fromEnv
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean);
+  }
+
+  const config = readJsonFile<Record<string, string[] | string>>(configPath, {});
+  const fromConfig = config[chain];
+  if (fromConfig !== undefined) {
+    const urls = Array.isArray(fromConfig) ? fromConfig : [fromConfig];
+    if (urls.length === 0 || urls.some(url => typeof url !== 'string' || !url)) {
+      throw new Error(`Invalid RPC config in ${configPath}: ${chain} must be a URL or a list of URLs`);
+    }
+    return urls;
+  }
+
+  return defaults;
+}
+
+/**
+ * Ask an endpoint which chain it serves
+ * @param provider Provider for a single endpoint
+ * @returns Chain ID reported by eth_chainId
+ */
+async function fetchChainId(provider: ethers.providers.JsonRpcProvider): Promise<number> {
+  return ethers.BigNumber.from(await provider.send('eth_chainId', [])).toNumber();
+}
+
+/**
+ * Create a provider for a chain that falls back to the next endpoint when one fails or is slow
+ * Every endpoint's chain ID is checked first; unreachable endpoints are skipped
+ * @param chain Payment method, e.g. "base"
+ * @param urls RPC URLs, most preferred first
+ * @returns Provider connected to the reachable endpoints
+ * @throws RpcEndpointError if an endpoint serves another chain or none can be reached
+ */
+export async function createChainProvider(
+  chain: string,
+  urls: string[] = getRpcUrls(chain)
+): Promise<ethers.providers.Provider> {
+  const config = CHAINS[chain];
+  if (config?.family !== 'evm') {
+    throw new UnsupportedChainError(chain);
+  }
+  const expectedChainId = config.chainId;
+
+  const timeout = getMillisecondsFromEnv('RPC_TIMEOUT_MS', DEFAULT_RPC_TIMEOUT_MS);
+  const network = { name: chain, chainId: expectedChainId };
+  const endpoints = urls.map(url => ({ url, provider: new ethers.providers.StaticJsonRpcProvider({ url, timeout }, network) }));
+
+  const checks = await Promise.all(
+    endpoints.map(async (endpoint): Promise<typeof endpoint & { chainId?: number; error?: string }> => {
+      try {
+        return { ...endpoint, chainId: await fetchChainId(endpoint.provider) };
+      } catch (error) {
+        return { ...endpoint, error: getRpcErrorReason(error) };
+      }
+    })
+  );
+
+  const mismatched = checks.filter(check => check.chainId !== undefined && check.chainId !== expectedChainId);
+  if (mismatched.length > 0) {
+    throw new RpcEndpointError(
+      `RPC endpoint ${mismatched[0].url} serves chain ID ${mismatched[0].chainId}, expected ${expectedChainId} for ${chain}`
+    );
+  }
+
+  const reachable = checks.filter(check => check.chainId !== undefined);
+  for (const check of checks) {
+    if (check.error !== undefined) {
+      console.error(`Warning: skipping RPC endpoint ${check.url} for ${chain}: ${check.error}`);
+    }
+  }
+  if (reachable.length === 0) {
+    throw new RpcEndpointError(`No RPC endpoint for ${chain} could be reached (tried ${urls.join(', ')})`);
+  }
+  if (reachable.length === 1) {
+    return reachable[0].provider;
+  }
+
+  const stallTimeout = getMillisecondsFromEnv('RPC_STALL_TIMEOUT_MS', DEFAULT_RPC_STALL_TIMEOUT_MS);
+  return new ethers.providers.FallbackProvider(
+    reachable.map((check, index) => ({ provider: check.provider, priority: index + 1, stallTimeout, weight: 1 })),
+    1
+  );
+}
+
+/**
+ * Get the verified provider for a chain, creating it on first use
+ * @param chain Payment method, e.g. "base"
+ * @returns Provider connected to the chain
+ */
+export function getChainProvider(chain: string): Promise<ethers.providers.Provider> {
+  let provider = chainProviders.get(chain);
+  if (!provider) {
+    provider = createChainProvider(chain);
+    // Do not cache failures, the endpoints may be back on the next call
+    provider.catch(() => chainProviders.delete(chain));
+    chainProviders.set(chain, provider);
+  }
+  return provider;
+}
+
+/**
+ * Read the reason out of an RPC failure
+ * @param error Error thrown by fetchJson or a provider
+ * @returns Short description of the failure
+ */
+function getRpcErrorReason(error: unknown): string {
+  // ethers errors carry a short reason next to a message that repeats the whole request
+  const reason = (error as { reason?: string }).reason;
+  return reason || (error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * JSON-RPC client for a Solana cluster that falls back to the next endpoint when one cannot be reached
+ */
+export class SolanaRpcClient {
+  readonly chain: string;
+  readonly urls: string[];
+  private readonly timeout: number;
+  private requestId = 0;
+
+  constructor(chain: string, urls: string[], timeout: number = getMillisecondsFromEnv('RPC_TIMEOUT_MS', DEFAULT_RPC_TIMEOUT_MS)) {
+    this.chain = chain;
+    this.urls = urls;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Call a method on a single endpoint
+   * @param url Endpoint URL
+   * @param method JSON-RPC method
+   * @param params Method parameters
+   * @returns Result of the call
+   */
+  private async sendRequest(url: string, method: string, params: unknown[]): Promise<any> {
+    const request = { jsonrpc: '2.0', id: ++this.requestId, method, params };
+    const response = await ethers.utils.fetchJson({ url, timeout: this.timeout }, JSON.stringify(request));
+    if (response.error) {
+      throw new Error(`Solana RPC ${method} failed: ${response.error.message || JSON.stringify(response.error)}`);
+    }
+    return response.result;
+  }
+
+  /**
+   * Call a method, trying the endpoints in order until one answers
+   * Errors returned by an endpoint are not retried elsewhere, only connection failures are
+   * @param method JSON-RPC method
+   * @param params Method parameters
+   * @returns Result of the call
+   */
+  async call<T = any>(method: string, params: unknown[] = []): Promise<T> {
+    let lastError: unknown;
+    for (const url of this.urls) {
+      try {
+        return await this.sendRequest(url, method, params);
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Solana RPC')) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+    throw new RpcEndpointError(`No RPC endpoint for ${this.chain} could be reached: ${getRpcErrorReason(lastError)}`);
+  }
+
+  /**
+   * Check every endpoint's genesis hash, dropping the ones that cannot be reached
+   * @param expectedGenesisHash Genesis hash of the cluster
+   * @returns Client using only the reachable endpoints
+   * @throws RpcEndpointError if an endpoint serves another cluster or none can be reached
+   */
+  async verify(expectedGenesisHash: string): Promise<SolanaRpcClient> {
+    const checks = await Promise.all(
+      this.urls.map(async url => {
+        try {
+          return { url, genesisHash: (await this.sendRequest(url, 'getGenesisHash', [])) as string };
+        } catch (error) {
+          return { url, error: getRpcErrorReason(error) };
+        }
+      })
+    );
+
+    const mismatched = checks.find(check => check.genesisHash !== undefined && check.genesisHash !== expectedGenesisHash);
+    if (mismatched) {
+      throw new RpcEndpointError(
+        `RPC endpoint ${mismatched.url} serves genesis hash ${mismatched.genesisHash}, expected ${expectedGenesisHash} for ${this.chain}`
+      );
+    }
+
+    for (const check of checks) {
+      if (check.error !== undefined) {
+        console.error(`Warning: skipping RPC endpoint ${check.url} for ${this.chain}: ${check.error}`);
+      }
+    }
+    const reachable = checks.filter(check => check.genesisHash !== undefined).map(check => check.url);
+    if (reachable.length === 0) {
+      throw new RpcEndpointError(`No RPC endpoint for ${this.chain} could be reached (tried ${this.urls.join(', ')})`);
+    }
+    return new SolanaRpcClient(this.chain, reachable, this.timeout);
+  }
+}
+
+/**
+ * Create a client for a Solana cluster whose endpoints have been checked to serve that cluster
+ * @param chain Payment method, e.g. "solana-devnet"
+ * @param urls RPC URLs, most preferred first
+ * @returns Client for the reachable endpoints
+ * @throws RpcEndpointError if an endpoint serves another cluster or none can be reached
+ */
+export async function createSolanaRpcClient(chain: string, urls: string[] = getRpcUrls(chain)): Promise<SolanaRpcClient> {
+  const config = CHAINS[chain];
+  if (config?.family !== 'solana') {
+    throw new UnsupportedChainError(chain);
+  }
+  return new SolanaRpcClient(chain, urls).verify(config.genesisHash);
+}
+
+/**
+ * Get the verified client for a Solana cluster, creating it on first use
+ * @param chain Payment method, e.g. "solana"
+ * @returns Client connected to the cluster
+ */
+export function getSolanaRpcClient(chain: string): Promise<SolanaRpcClient> {
+  let client = solanaClients.get(chain);
+  if (!client) {
+    client = createSolanaRpcClient(chain);
+    client.catch(() => solanaClients.delete(chain));
+    solanaClients.set(chain, client);
+  }
+  return client;
+}
@@ -0,0 +1,280 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { SolanaKeypair } from './solana';
+
+/**
+ * Where the signing key comes from
+ */
+export type SignerConfig =
+  | { type: 'private-key'; privateKey: string }
+  | { type: 'keystore'; path: string; passphraseFile?: string }
+  | { type: 'mnemonic'; mnemonic: string; derivationPath?: string }
+  | { type: 'remote'; url: string; address?: string };
+
+/**
+ * Signer settings as given on the command line
+ */
+export interface SignerOptions {
+  privateKey?: string;
+  keystore?: string;
+  passphraseFile?: string;
+  mnemonicFile?: string;
+  derivationPath?: string;
+  remoteSigner?: string;
+  signerAddress?: string;
+  solanaKeypair?: string;
+}
+
+/**
+ * Signs payments: an ethers signer on EVM chains, a keypair on Solana
+ */
+export type PaymentSigner = ethers.Signer | SolanaKeypair;
+
+/**
+ * A signer, or a raw EVM private key for callers that still pass one
+ */
+export type SignerLike = PaymentSigner | string;
+
+const DEFAULT_REMOTE_SIGNER_TIMEOUT_MS = 30000;
+
+/**
+ * Read a secret from a file, without the trailing newline editors add
+ * @param filePath Path of the file
+ * @returns File contents
+ */
+function readSecretFile(filePath: string): string {
+  return fs.readFileSync(filePath, 'utf8').replace(/\r?\n$/, '');
+}
+
+/**
+ * Pick the single configured signer out of several possible sources
+ * @param candidates Signer configs keyed by the option or variable that set them
+ * @param origin Where the settings came from, used in the error message
+ * @returns The configured signer, or undefined if none is set
+ */
+function pickSignerConfig(candidates: Array<[string, SignerConfig | undefined]>, origin: string): SignerConfig | undefined {
+  const configured = candidates.filter(([, config]) => config !== undefined);
+  if (configured.length > 1) {
+    throw new Error(`Only one signer can be used, but ${origin} sets ${configured.map(([name]) => name).join(' and ')}`);
+  }
+  return configured[0]?.[1];
+}
+
+/**
+ * Check whether a signer was chosen on the command line
+ * @param options Command line signer options
+ * @returns True if any signer option other than its settings was given
+ */
+export function hasSignerOption(options: SignerOptions): boolean {
+  return Boolean(options.privateKey || options.keystore || options.mnemonicFile || options.remoteSigner || options.solanaKeypair);
+}
+
+/**
+ * Work out which Solana keypair file to use, the command line first, then the environment
+ * Solana keypairs are configured separately from EVM signers, so one setup can pay on both
+ * @param options Command line signer options
+ * @param env Environment variables
+ * @returns Keypair file path, or undefined if none is configured
+ */
+export function getSolanaKeypairPath(options: SignerOptions = {}, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  return options.solanaKeypair || env.SOLANA_KEYPAIR_FILE || undefined;
+}
+
+/**
+ * Work out which signer to use, command line options first, then the environment
+ * @param options Command line signer options
+ * @param env Environment variables
+ * @returns Signer config, or undefined if no signer is configured
+ */
+export function resolveSignerConfig(
+  options: SignerOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): SignerConfig | undefined {
+  const derivationPath = options.derivationPath || env.DERIVATION_PATH;
+
+  const fromOptions = pickSignerConfig(
+    [
+      ['--private-key', options.privateKey ? { type: 'private-key', privateKey: options.privateKey } : undefined],
+      [
+        '--keystore',
+        options.keystore
+          ? { type: 'keystore', path: options.keystore, passphraseFile: options.passphraseFile || env.KEYSTORE_PASSPHRASE_FILE }
+          : undefined
+      ],
+      [
+        '--mnemonic-file',
+        options.mnemonicFile ? { type: 'mnemonic', mnemonic: readSecretFile(options.mnemonicFile), derivationPath } : undefined
+      ],
+      [
+        '--remote-signer',
+        options.remoteSigner
+          ? { type: 'remote', url: options.remoteSigner, address: options.signerAddress || env.REMOTE_SIGNER_ADDRESS }
+          : undefined
+      ]
+    ],
+    'the command line'
+  );
+  if (fromOptions) {
+    return fromOptions;
+  }
+
+  const mnemonic = env.MNEMONIC || (env.MNEMONIC_FILE ? readSecretFile(env.MNEMONIC_FILE) : undefined);
+  return pickSignerConfig(
+    [
+      ['PRIVATE_KEY', env.PRIVATE_KEY ? { type: 'private-key', privateKey: env.PRIVATE_KEY } : undefined],
+      [
+        'KEYSTORE_FILE',
+        env.KEYSTORE_FILE
+          ? { type: 'keystore', path: env.KEYSTORE_FILE, passphraseFile: options.passphraseFile || env.KEYSTORE_PASSPHRASE_FILE }
+          : undefined
+      ],
+      ['MNEMONIC', mnemonic ? { type: 'mnemonic', mnemonic, derivationPath } : undefined],
+      [
+        'REMOTE_SIGNER_URL',
+        env.REMOTE_SIGNER_URL
+          ? { type: 'remote', url: env.REMOTE_SIGNER_URL, address: options.signerAddress || env.REMOTE_SIGNER_ADDRESS }
+          : undefined
+      ]
+    ],
+    'the environment'
+  );
+}
+
+/**
+ * Create a signer from its config
+ * @param config Signer config
+ * @param promptPassphrase Asks for the keystore passphrase when no passphrase file is configured
+ * @returns Signer, not yet connected to a provider
+ */
+export async function createSigner(
+  config: SignerConfig,
+  promptPassphrase?: (keystorePath: string) => Promise<string>
+): Promise<ethers.Signer> {
+  switch (config.type) {
+    case 'private-key':
+      return new ethers.Wallet(config.privateKey);
+    case 'keystore': {
+      const json = fs.readFileSync(config.path, 'utf8');
+      let passphrase: string;
+      if (config.passphraseFile) {
+        passphrase = readSecretFile(config.passphraseFile);
+      } else if (promptPassphrase) {
+        passphrase = await promptPassphrase(config.path);
+      } else {
+        throw new Error(`Keystore ${config.path} needs a passphrase: set KEYSTORE_PASSPHRASE_FILE or use --passphrase-file`);
+      }
+      try {
+        return await ethers.Wallet.fromEncryptedJson(json, passphrase);
+      } catch (error) {
+        throw new Error(`Failed to unlock keystore ${config.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    case 'mnemonic':
+      return ethers.Wallet.fromMnemonic(config.mnemonic.trim(), config.derivationPath || ethers.utils.defaultPath);
+    case 'remote':
+      return new RemoteSigner(config.url, config.address);
+  }
+}
+
+/**
+ * Turn a signer or private key into a signer
+ * @param signer Signer, or a private key
+ * @returns Signer
+ */
+export function toSigner(signer: SignerLike): PaymentSigner {
+  return typeof signer === 'string' ? new ethers.Wallet(signer) : signer;
+}
+
+/**
+ * Turn a signer or private key into an EVM signer
+ * @param signer Signer, or a private key
+ * @returns EVM signer
+ * @throws Error if the signer is a Solana keypair
+ */
+export function toEvmSigner(signer: SignerLike): ethers.Signer {
+  const resolved = toSigner(signer);
+  if (resolved instanceof SolanaKeypair) {
+    throw new Error('A Solana keypair cannot sign EVM transactions, configure an EVM signer');
+  }
+  return resolved;
+}
+
+/**
+ * Signer that keeps its keys in another process, e.g. Clef or Web3Signer, reached over JSON-RPC
+ * Transactions are signed with eth_signTransaction and broadcast through the connected provider
+ */
+export class RemoteSigner extends ethers.Signer {
+  readonly url: string;
+  private address?: string;
+  private requestId = 0;
+
+  constructor(url: string, address?: string, provider?: ethers.providers.Provider) {
+    super();
+    this.url = url;
+    this.address = address ? ethers.utils.getAddress(address) : undefined;
+    ethers.utils.defineReadOnly(this, 'provider', provider);
+  }
+
+  /**
+   * Call a method on the remote signer
+   * @param method JSON-RPC method
+   * @param params Method parameters
+   * @returns Result of the call
+   */
+  private async sendRequest(method: string, params: unknown[]): Promise<any> {
+    const request = { jsonrpc: '2.0', id: ++this.requestId, method, params };
+    const response = await ethers.utils.fetchJson(
+      { url: this.url, timeout: DEFAULT_REMOTE_SIGNER_TIMEOUT_MS },
+      JSON.stringify(request)
+    );
+    if (response.error) {
+      throw new Error(`Remote signer ${method} failed: ${response.error.message || JSON.stringify(response.error)}`);
+    }
+    return response.result;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.address) {
+      const accounts: string[] = await this.sendRequest('eth_accounts', []);
+      if (!accounts || accounts.length === 0) {
+        throw new Error(`Remote signer ${this.url} has no accounts`);
+      }
+      this.address = ethers.utils.getAddress(accounts[0]);
+    }
+    return this.address;
+  }
+
+  async signMessage(message: ethers.Bytes | string): Promise<string> {
+    const data = typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message;
+    return this.sendRequest('personal_sign', [ethers.utils.hexlify(data), await this.getAddress()]);
+  }
+
+  async signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+    const request = await ethers.utils.resolveProperties({ ...transaction, from: await this.getAddress() });
+    const result = await this.sendRequest('eth_signTransaction', [
+      ethers.providers.JsonRpcProvider.hexlifyTransaction(request, { from: true })
+    ]);
+
+    // Clef answers with { raw, tx }, most other signers with the raw transaction
+    const signed: string = typeof result === 'string' ? result : result?.raw;
+    const parsed = ethers.utils.parseTransaction(signed);
+
+    // Never broadcast something other than what was asked to be signed
+    const mismatches = [
+      parsed.from?.toLowerCase() !== request.from.toLowerCase() && 'from',
+      (parsed.to || '').toLowerCase() !== (request.to || '').toLowerCase() && 'to',
+      ethers.utils.hexlify(parsed.data) !== ethers.utils.hexlify(request.data || '0x') && 'data',
+      !parsed.value.eq(request.value || 0) && 'value',
+      request.chainId !== undefined && parsed.chainId !== request.chainId && 'chainId'
+    ].filter(Boolean);
+    if (mismatches.length > 0) {
+      throw new Error(`Remote signer returned a transaction with a different ${mismatches.join(', ')}`);
+    }
+
+    return signed;
+  }
+
+  connect(provider: ethers.providers.Provider): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider);
+  }
+}
@@ -0,0 +1,368 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { PollingTimeoutError, TransactionRevertedError } from './errors';
+import type { SolanaRpcClient } from './rpc';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+export const MEMO_PROGRAM_IDS = ['MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr', 'Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo'];
+
+// DER prefix turning a raw 32-byte Ed25519 seed into a PKCS#8 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+const SIGNATURE_LENGTH = 64;
+const PUBLIC_KEY_LENGTH = 32;
+const VERSIONED_MESSAGE_FLAG = 0x80;
+
+const SYSTEM_TRANSFER_INSTRUCTION = 2;
+const TOKEN_TRANSFER_INSTRUCTION = 3;
+const TOKEN_TRANSFER_CHECKED_INSTRUCTION = 12;
+
+const DEFAULT_CONFIRMATION_TIMEOUT_MS = 90000;
+const DEFAULT_CONFIRMATION_POLL_MS = 2000;
+
+/**
+ * Instruction of a Solana transaction
+ */
+export interface SolanaInstruction {
+  programId: string;
+  // Undefined for accounts loaded from an address lookup table, which cannot be resolved offline
+  accounts: Array<string | undefined>;
+  data: Buffer;
+}
+
+/**
+ * Solana transaction as sent over the wire, decoded far enough to check and sign it
+ */
+export interface DecodedSolanaTransaction {
+  version: 'legacy' | number;
+  signatures: Buffer[];
+  // Serialized message, the bytes that are signed
+  message: Buffer;
+  numRequiredSignatures: number;
+  accountKeys: string[];
+  recentBlockhash: string;
+  instructions: SolanaInstruction[];
+}
+
+/**
+ * SPL token transfer found in a transaction
+ */
+export interface SolanaTokenTransfer {
+  source?: string;
+  destination?: string;
+  authority?: string;
+  // Only known for TransferChecked instructions
+  mint?: string;
+  decimals?: number;
+  amount: ethers.BigNumber;
+}
+
+/**
+ * SOL transfer found in a transaction
+ */
+export interface SolanaNativeTransfer {
+  from?: string;
+  to?: string;
+  lamports: ethers.BigNumber;
+}
+
+/**
+ * Ed25519 keypair paying for Solana orders, in the format written by solana-keygen
+ */
+export class SolanaKeypair {
+  readonly publicKey: string;
+  private readonly privateKey: crypto.KeyObject;
+
+  /**
+   * @param secretKey 64 bytes: the 32-byte seed followed by the 32-byte public key
+   */
+  constructor(secretKey: Uint8Array) {
+    if (secretKey.length !== 64) {
+      throw new Error(`Solana secret key must be 64 bytes, got ${secretKey.length}`);
+    }
+
+    const seed = Buffer.from(secretKey.subarray(0, 32));
+    this.privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+
+    // The last 32 bytes of the SPKI encoding are the raw public key
+    const publicKey = crypto.createPublicKey(this.privateKey).export({ format: 'der', type: 'spki' }).subarray(-PUBLIC_KEY_LENGTH);
+    if (!publicKey.equals(Buffer.from(secretKey.subarray(32)))) {
+      throw new Error('Solana secret key does not match its public key');
+    }
+    this.publicKey = ethers.utils.base58.encode(publicKey);
+  }
+
+  /**
+   * Load a keypair from a file
+   * @param filePath JSON array of 64 numbers as written by solana-keygen, or a base58 secret key as exported by wallets
+   * @returns Keypair
+   */
+  static fromFile(filePath: string): SolanaKeypair {
+    const contents = fs.readFileSync(filePath, 'utf8').trim();
+    try {
+      const secretKey = contents.startsWith('[') ? Uint8Array.from(JSON.parse(contents)) : ethers.utils.base58.decode(contents);
+      return new SolanaKeypair(secretKey);
+    } catch (error) {
+      throw new Error(`Invalid Solana keypair file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the address, the same way ethers signers do
+   * @returns Base58 public key
+   */
+  async getAddress(): Promise<string> {
+    return this.publicKey;
+  }
+
+  /**
+   * Sign a message
+   * @param message Bytes to sign
+   * @returns 64-byte Ed25519 signature
+   */
+  sign(message: Uint8Array): Buffer {
+    return crypto.sign(null, message, this.privateKey);
+  }
+}
+
+/**
+ * Reader for the compact binary layout of Solana transactions
+ */
+class ByteReader {
+  offset = 0;
+
+  constructor(private readonly bytes: Buffer) {}
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Solana transaction is truncated');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  take(length: number): Buffer {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Solana transaction is truncated');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  // Compact-u16: 7 bits per byte, high bit set while more bytes follow
+  compactLength(): number {
+    let value = 0;
+    for (let shift = 0; shift < 21; shift += 7) {
+      const byte = this.byte();
+      value |= (byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+    }
+    throw new Error('Invalid compact length in Solana transaction');
+  }
+
+  rest(): Buffer {
+    return this.bytes.subarray(this.offset);
+  }
+}
+
+/**
+ * Encode a length in the compact-u16 format
+ * @param value Length
+ * @returns Encoded bytes
+ */
+function encodeCompactLength(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    let byte = remaining & 0x7f;
+    remaining >>= 7;
+    if (remaining > 0) {
+      byte |= 0x80;
+    }
+    bytes.push(byte);
+  } while (remaining > 0);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode a serialized Solana transaction
+ * @param serializedTransaction Base58 or base64 encoded transaction, as prepared by the API
+ * @returns Decoded transaction
+ */
+export function decodeSolanaTransaction(serializedTransaction: string): DecodedSolanaTransaction {
+  const bytes = /^[1-9A-HJ-NP-Za-km-z]+$/.test(serializedTransaction)
+    ? Buffer.from(ethers.utils.base58.decode(serializedTransaction))
+    : Buffer.from(serializedTransaction, 'base64');
+
+  const reader = new ByteReader(bytes);
+  const signatureCount = reader.compactLength();
+  const signatures = Array.from({ length: signatureCount }, () => Buffer.from(reader.take(SIGNATURE_LENGTH)));
+  const message = reader.rest();
+
+  const prefix = message[0];
+  let version: DecodedSolanaTransaction['version'] = 'legacy';
+  if (prefix !== undefined && prefix & VERSIONED_MESSAGE_FLAG) {
+    version = prefix & ~VERSIONED_MESSAGE_FLAG;
+    if (version !== 0) {
+      throw new Error(`Unsupported Solana transaction version ${version}`);
+    }
+    reader.byte();
+  }
+
+  const numRequiredSignatures = reader.byte();
+  // Read-only signed and unsigned account counts, not needed to check the payment
+  reader.take(2);
+
+  const accountKeys = Array.from({ length: reader.compactLength() }, () => ethers.utils.base58.encode(reader.take(PUBLIC_KEY_LENGTH)));
+  const recentBlockhash = ethers.utils.base58.encode(reader.take(32));
+
+  const instructions = Array.from({ length: reader.compactLength() }, () => {
+    const programIndex = reader.byte();
+    const accountIndexes = Array.from(reader.take(reader.compactLength()));
+    const data = Buffer.from(reader.take(reader.compactLength()));
+    const programId = accountKeys[programIndex];
+    if (programId === undefined) {
+      throw new Error('Solana instruction program must be a static account key');
+    }
+    return { programId, accounts: accountIndexes.map(index => accountKeys[index]), data };
+  });
+
+  if (signatureCount !== numRequiredSignatures) {
+    throw new Error(`Solana transaction has ${signatureCount} signature slots but requires ${numRequiredSignatures}`);
+  }
+
+  return { version, signatures, message: Buffer.from(message), numRequiredSignatures, accountKeys, recentBlockhash, instructions };
+}
+
+/**
+ * Find the SPL token transfers in a transaction
+ * @param transaction Decoded transaction
+ * @returns Transfers of the Token and Token-2022 programs
+ */
+export function decodeSolanaTokenTransfers(transaction: DecodedSolanaTransaction): SolanaTokenTransfer[] {
+  return transaction.instructions
+    .filter(instruction => instruction.programId === TOKEN_PROGRAM_ID || instruction.programId === TOKEN_2022_PROGRAM_ID)
+    .flatMap((instruction): SolanaTokenTransfer[] => {
+      const { accounts, data } = instruction;
+      if (data[0] === TOKEN_TRANSFER_INSTRUCTION && data.length >= 9) {
+        return [{ source: accounts[0], destination: accounts[1], authority: accounts[2], amount: readU64(data, 1) }];
+      }
+      if (data[0] === TOKEN_TRANSFER_CHECKED_INSTRUCTION && data.length >= 10) {
+        return [
+          {
+            source: accounts[0],
+            mint: accounts[1],
+            destination: accounts[2],
+            authority: accounts[3],
+            amount: readU64(data, 1),
+            decimals: data[9]
+          }
+        ];
+      }
+      return [];
+    });
+}
+
+/**
+ * Find the SOL transfers in a transaction
+ * @param transaction Decoded transaction
+ * @returns Transfers of the system program
+ */
+export function decodeSolanaNativeTransfers(transaction: DecodedSolanaTransaction): SolanaNativeTransfer[] {
+  return transaction.instructions
+    .filter(
+      instruction =>
+        instruction.programId === SYSTEM_PROGRAM_ID &&
+        instruction.data.length >= 12 &&
+        instruction.data.readUInt32LE(0) === SYSTEM_TRANSFER_INSTRUCTION
+    )
+    .map(instruction => ({ from: instruction.accounts[0], to: instruction.accounts[1], lamports: readU64(instruction.data, 4) }));
+}
+
+/**
+ * Read a little-endian u64
+ * @param data Instruction data
+ * @param offset Byte offset
+ * @returns Value
+ */
+function readU64(data: Buffer, offset: number): ethers.BigNumber {
+  return ethers.BigNumber.from(data.readBigUInt64LE(offset).toString());
+}
+
+/**
+ * Sign a transaction with the payer's keypair
+ * @param transaction Decoded transaction
+ * @param keypair Payer keypair, must be one of the transaction's signers
+ * @returns Serialized signed transaction
+ */
+export function signSolanaTransaction(transaction: DecodedSolanaTransaction, keypair: SolanaKeypair): Buffer {
+  const signerIndex = transaction.accountKeys.indexOf(keypair.publicKey);
+  if (signerIndex < 0 || signerIndex >= transaction.numRequiredSignatures) {
+    throw new Error(`${keypair.publicKey} is not a signer of the Solana transaction`);
+  }
+
+  const signatures = transaction.signatures.map((signature, index) =>
+    index === signerIndex ? keypair.sign(transaction.message) : signature
+  );
+  return Buffer.concat([encodeCompactLength(signatures.length), ...signatures, transaction.message]);
+}
+
+/**
+ * Submit a signed transaction
+ * @param client RPC client of the cluster
+ * @param signedTransaction Serialized signed transaction
+ * @returns Transaction signature
+ */
+export async function sendSolanaTransaction(client: SolanaRpcClient, signedTransaction: Buffer): Promise<string> {
+  return client.call<string>('sendTransaction', [
+    signedTransaction.toString('base64'),
+    { encoding: 'base64', preflightCommitment: 'confirmed' }
+  ]);
+}
+
+/**
+ * Wait until a transaction is confirmed by the cluster
+ * @param client RPC client of the cluster
+ * @param signature Transaction signature
+ * @param options Time limit and poll interval in milliseconds
+ * @returns Slot the transaction landed in
+ * @throws TransactionRevertedError if the transaction failed
+ * @throws PollingTimeoutError if it is not confirmed in time, e.g. because its blockhash expired
+ */
+export async function waitForSolanaConfirmation(
+  client: SolanaRpcClient,
+  signature: string,
+  options: { timeoutMs?: number; pollIntervalMs?: number } = {}
+): Promise<number> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CONFIRMATION_TIMEOUT_MS;
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_CONFIRMATION_POLL_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const statuses = await client.call<{
+      value: Array<{ slot: number; err: unknown; confirmationStatus?: string } | null>;
+    }>('getSignatureStatuses', [[signature], { searchTransactionHistory: true }]);
+    const status = statuses.value[0];
+
+    if (status?.err) {
+      throw new TransactionRevertedError(signature, status.slot);
+    }
+    if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+      return status.slot;
+    }
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new PollingTimeoutError(`Solana transaction ${signature} was not confirmed within ${timeoutMs / 1000}s`);
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Get the directory where the tool keeps its local state
+ * Can be overridden with the CRYPTO_BUYER_HOME environment variable
+ * @returns Absolute path of the data directory
+ */
+export function getDataDir(): string {
+  return process.env.CRYPTO_BUYER_HOME || path.join(os.homedir(), '.crypto-physical-buyer');
+}
+
+/**
+ * Resolve a file name inside the data directory
+ * @param fileName File name relative to the data directory
+ * @returns Absolute file path
+ */
+export function getDataFilePath(fileName: string): string {
+  return path.join(getDataDir(), fileName);
+}
+
+/**
+ * Read a JSON file, returning a fallback value if it does not exist
+ * @param filePath Path of the JSON file
+ * @param fallback Value returned when the file is missing
+ * @returns Parsed file contents
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+
+  const contents = fs.readFileSync(filePath, 'utf8');
+  try {
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    throw new Error(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Write a JSON file atomically, creating parent directories as needed
+ * @param filePath Path of the JSON file
+ * @param data Data to serialize
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temporary file first so a crash never leaves a truncated file behind
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,72 @@
+import type { OrderStatusResponse, ShippingAddress } from './index';
+import type { OrderRecord } from './order-history';
+
+/**
+ * Delivery state of one line item of an order
+ */
+export interface LineItemDelivery {
+  // Position of the line item in the order, starting at 0
+  lineItemIndex: number;
+  name?: string;
+  quantity?: number;
+  // Delivery status reported by the API, or "pending" before delivery has started
+  status: string;
+  carrier?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  // Who the item ships to, e.g. "Jane Doe, Springfield, IL 62701, US (jane@example.com)"
+  recipient?: string;
+}
+
+/**
+ * Describe who an item ships to
+ * The API reports the recipient's email or locator; the shipping address comes from the local order history
+ * @param recipient Delivery recipient reported by the API
+ * @param shippingAddress Shipping address the order was created with
+ * @returns Recipient description, or undefined if nothing is known about the recipient
+ */
+export function formatRecipient(
+  recipient: { locator?: string; email?: string } | undefined,
+  shippingAddress?: ShippingAddress
+): string | undefined {
+  const contact = recipient?.email || recipient?.locator;
+  if (!shippingAddress) {
+    return contact;
+  }
+
+  const { name, city, state, postalCode, country } = shippingAddress;
+  const address = [name, city, [state, postalCode].filter(Boolean).join(' '), country].filter(Boolean).join(', ');
+  return contact ? `${address} (${contact})` : address;
+}
+
+/**
+ * Get the delivery state of every line item of an order
+ * @param statusResponse Order status response
+ * @param record Stored order record, used for the shipping address
+ * @returns Delivery of each line item, in order
+ */
+export function getLineItemDeliveries(statusResponse: OrderStatusResponse, record?: OrderRecord): LineItemDelivery[] {
+  return (statusResponse.order?.lineItems || []).map((lineItem, lineItemIndex) => ({
+    lineItemIndex,
+    name: lineItem.metadata?.name,
+    quantity: lineItem.quantity ?? lineItem.callData?.quantity,
+    status: lineItem.delivery?.status || 'pending',
+    carrier: lineItem.delivery?.carrier,
+    trackingNumber: lineItem.delivery?.trackingNumber,
+    trackingUrl: lineItem.delivery?.trackingUrl,
+    recipient: formatRecipient(lineItem.delivery?.recipient, record?.shippingAddress)
+  }));
+}
+
+/**
+ * Format the delivery of a line item for display
+ * @param delivery Line item delivery
+ * @returns One line, e.g. "1. USB-C cable x2: in-progress, UPS 1Z999AA10123456784"
+ */
+export function formatLineItemDelivery(delivery: LineItemDelivery): string {
+  const item = `${delivery.lineItemIndex + 1}. ${delivery.name || 'Line item'}${delivery.quantity ? ` x${delivery.quantity}` : ''}`;
+  const tracking = delivery.trackingNumber
+    ? `${delivery.carrier ? `${delivery.carrier} ` : ''}${delivery.trackingNumber}`
+    : 'no tracking number yet';
+  return `${item}: ${delivery.status}, ${tracking}`;
+}
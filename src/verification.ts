@@ -0,0 +1,405 @@
+import { ethers } from 'ethers';
+import type { Order } from './payment';
+import { CHAINS, findChainByPaymentMethod, getEvmChain } from './chains';
+import { TransactionVerificationError } from './errors';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  decodeSolanaNativeTransfers,
+  decodeSolanaTokenTransfers,
+  DecodedSolanaTransaction,
+  MEMO_PROGRAM_IDS,
+  SolanaTokenTransfer,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from './solana';
+
+const DEFAULT_AMOUNT_TOLERANCE = 0.01;
+const ERC20_INTERFACE = new ethers.utils.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+// A Solana USDC payment may only contain the transfer itself, creating the recipient's token account, fee settings
+// and memos. Allowing whole programs is not enough: the Token program can also approve a delegate or hand over an
+// account, and the System program can move SOL or reassign the payer's accounts
+const SOLANA_TOKEN_PROGRAMS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+const SOLANA_FEE_AND_MEMO_PROGRAMS = [COMPUTE_BUDGET_PROGRAM_ID, ...MEMO_PROGRAM_IDS];
+const TOKEN_TRANSFER_INSTRUCTIONS = [3, 12];
+// Create and CreateIdempotent; Create may also be encoded without data
+const ASSOCIATED_TOKEN_CREATE_INSTRUCTIONS = [0, 1];
+const SYSTEM_TRANSFER_INSTRUCTION = 2;
+
+// Names of instructions that are refused, for readable errors
+const TOKEN_INSTRUCTION_NAMES: Record<number, string> = {
+  4: 'Approve',
+  5: 'Revoke',
+  6: 'SetAuthority',
+  7: 'MintTo',
+  8: 'Burn',
+  9: 'CloseAccount',
+  10: 'FreezeAccount',
+  13: 'ApproveChecked'
+};
+const SYSTEM_INSTRUCTION_NAMES: Record<number, string> = {
+  0: 'CreateAccount',
+  1: 'Assign',
+  2: 'Transfer',
+  3: 'CreateAccountWithSeed',
+  8: 'Allocate'
+};
+
+/**
+ * Get the allowed relative difference between the transferred amount and the quoted total
+ * @returns PAYMENT_AMOUNT_TOLERANCE if set, otherwise 0.01 (1%)
+ */
+export function getPaymentAmountTolerance(): number {
+  const value = process.env.PAYMENT_AMOUNT_TOLERANCE;
+  if (value === undefined || value === '') {
+    return DEFAULT_AMOUNT_TOLERANCE;
+  }
+
+  const tolerance = Number(value);
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error(`Invalid PAYMENT_AMOUNT_TOLERANCE: ${value}`);
+  }
+  return tolerance;
+}
+
+/**
+ * Get the addresses payments may be sent to
+ * @returns Checksummed addresses from PAYMENT_RECIPIENT_ALLOWLIST, or undefined if any recipient is allowed
+ */
+export function getPaymentRecipientAllowlist(): string[] | undefined {
+  const value = process.env.PAYMENT_RECIPIENT_ALLOWLIST;
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  return value.split(',').map(address => {
+    try {
+      return ethers.utils.getAddress(address.trim());
+    } catch {
+      throw new Error(`Invalid address in PAYMENT_RECIPIENT_ALLOWLIST: ${address.trim()}`);
+    }
+  });
+}
+
+/**
+ * Get the environment variable overriding the gas cost limit of a chain
+ * @param chain Chain name, e.g. "base-sepolia"
+ * @returns Variable name, e.g. "PAYMENT_MAX_GAS_COST_BASE_SEPOLIA"
+ */
+export function getMaxGasCostEnvName(chain: string): string {
+  return `PAYMENT_MAX_GAS_COST_${chain.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+/**
+ * Get the most a payment transaction may spend on gas
+ * @param chain Chain name
+ * @returns Limit in wei, from PAYMENT_MAX_GAS_COST_<CHAIN> if set, otherwise the chain's default
+ */
+export function getMaxGasCost(chain: string): ethers.BigNumber {
+  const envName = getMaxGasCostEnvName(chain);
+  const value = process.env[envName] || getEvmChain(chain).maxGasCost;
+  try {
+    return ethers.utils.parseEther(value.trim());
+  } catch {
+    throw new Error(`Invalid ${envName}: ${value}`);
+  }
+}
+
+/**
+ * Compare the most a transaction can spend on gas with the chain's limit
+ * @param chain Chain name
+ * @param gasCost Gas limit times the maximum fee per gas, or undefined if it is not known
+ * @returns List of problems, empty if the cost is within the limit
+ */
+export function verifyGasCost(chain: string, gasCost: ethers.BigNumber | undefined): string[] {
+  const maxGasCost = getMaxGasCost(chain);
+  if (gasCost && gasCost.gt(maxGasCost)) {
+    const nativeCurrency = getEvmChain(chain).nativeCurrency;
+    return [
+      `transaction can spend up to ${ethers.utils.formatEther(gasCost)} ${nativeCurrency} on gas, ` +
+      `more than the limit of ${ethers.utils.formatEther(maxGasCost)} ${nativeCurrency}`
+    ];
+  }
+  return [];
+}
+
+/**
+ * Decode the ERC-20 transfer in a transaction's calldata
+ * @param transaction Parsed transaction
+ * @returns Recipient and amount in token units, or undefined if the calldata is not a transfer
+ */
+export function decodeTransfer(transaction: ethers.Transaction): { to: string; amount: ethers.BigNumber } | undefined {
+  try {
+    const transfer = ERC20_INTERFACE.parseTransaction({ data: transaction.data });
+    return { to: transfer.args.to, amount: transfer.args.amount };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a transaction prepared by the API pays exactly for the order and nothing else
+ * @param order Order being paid
+ * @param transaction Parsed serialized transaction
+ * @param payer Address of the paying wallet
+ * @param tolerance Allowed relative difference between the transferred amount and the quoted total
+ * @returns List of problems, empty if the transaction can be signed
+ */
+export function verifyPaymentTransaction(
+  order: Order,
+  transaction: ethers.Transaction,
+  payer: string,
+  tolerance: number = getPaymentAmountTolerance()
+): string[] {
+  const reasons: string[] = [];
+
+  const chainName = findChainByPaymentMethod(order.payment.method);
+  const chain = chainName ? CHAINS[chainName] : undefined;
+  if (chain?.family !== 'evm') {
+    return [`payment method ${order.payment.method} has no known USDC contract`];
+  }
+
+  if (transaction.chainId !== chain.chainId) {
+    reasons.push(`chain ID ${transaction.chainId} does not match ${order.payment.method} (${chain.chainId})`);
+  }
+
+  if (!transaction.to || transaction.to.toLowerCase() !== chain.usdc.address.toLowerCase()) {
+    reasons.push(`transaction is sent to ${transaction.to || 'no address'} instead of the USDC contract ${chain.usdc.address}`);
+  }
+
+  if (!transaction.value.isZero()) {
+    reasons.push(`transaction sends ${ethers.utils.formatEther(transaction.value)} native tokens, expected none`);
+  }
+
+  // Fees the transaction leaves unset are filled in from the chain's fee data when it is sent, and checked then
+  const fee = transaction.maxFeePerGas || transaction.gasPrice;
+  reasons.push(...verifyGasCost(chainName as string, fee && transaction.gasLimit.mul(fee)));
+
+  const transfer = decodeTransfer(transaction);
+  if (!transfer) {
+    reasons.push('calldata is not an ERC-20 transfer');
+  } else {
+    reasons.push(...verifyRecipient(transfer.to, payer));
+  }
+
+  reasons.push(...verifyQuotedAmount(order, transfer?.amount, chain.usdc.decimals, tolerance));
+
+  return reasons;
+}
+
+/**
+ * Check the recipient of a USDC transfer about to be signed
+ * @param recipient Address the USDC is sent to
+ * @param payer Address of the paying wallet
+ * @returns List of problems, empty if the recipient can be paid
+ */
+function verifyRecipient(recipient: string, payer: string): string[] {
+  const address = ethers.utils.getAddress(recipient);
+  if (address === ethers.constants.AddressZero) {
+    return ['transfer recipient is the zero address'];
+  }
+  if (address === ethers.utils.getAddress(payer)) {
+    return ['transfer recipient is the payer'];
+  }
+
+  const allowlist = getPaymentRecipientAllowlist();
+  if (allowlist && !allowlist.includes(address)) {
+    return [`transfer recipient ${address} is not in PAYMENT_RECIPIENT_ALLOWLIST`];
+  }
+  return [];
+}
+
+/**
+ * Compare a USDC amount about to be transferred with the order's quoted total
+ * @param order Order being paid
+ * @param amount Amount in USDC base units, or undefined if no transfer was found
+ * @param decimals USDC decimals on the chain
+ * @param tolerance Allowed relative difference between the amount and the quoted total
+ * @returns List of problems, empty if the amount matches
+ */
+export function verifyQuotedAmount(
+  order: Order,
+  amount: ethers.BigNumber | undefined,
+  decimals: number,
+  tolerance: number
+): string[] {
+  const totalPrice = order.quote.totalPrice;
+  if (!totalPrice) {
+    return ['quote has no total price to compare the transfer amount with'];
+  }
+  if (totalPrice.currency.toLowerCase() !== 'usdc') {
+    return [`quote currency ${totalPrice.currency} is not USDC`];
+  }
+  if (!amount) {
+    return [];
+  }
+
+  const transferred = Number(ethers.utils.formatUnits(amount, decimals));
+  const expected = Number(totalPrice.amount);
+  if (!Number.isFinite(expected) || Math.abs(transferred - expected) > expected * tolerance) {
+    return [`transfer amount ${transferred} USDC does not match the quoted total of ${totalPrice.amount} USDC`];
+  }
+  return [];
+}
+
+/**
+ * Check a transaction prepared by the API before it is signed
+ * @param order Order being paid
+ * @param transaction Parsed serialized transaction
+ * @param payer Address of the paying wallet
+ * @throws TransactionVerificationError if the transaction does not match the order
+ */
+export function assertPaymentTransaction(order: Order, transaction: ethers.Transaction, payer: string): void {
+  const reasons = verifyPaymentTransaction(order, transaction, payer);
+  if (reasons.length > 0) {
+    throw new TransactionVerificationError(reasons);
+  }
+}
+
+/**
+ * Check that a Solana transaction prepared by the API pays exactly for the order and nothing else
+ * @param order Order being paid
+ * @param transaction Decoded serialized transaction
+ * @param payer Base58 address of the paying keypair
+ * @param tolerance Allowed relative difference between the transferred amount and the quoted total
+ * @returns List of problems, empty if the transaction can be signed
+ */
+export function verifySolanaPaymentTransaction(
+  order: Order,
+  transaction: DecodedSolanaTransaction,
+  payer: string,
+  tolerance: number = getPaymentAmountTolerance()
+): string[] {
+  const reasons: string[] = [];
+
+  const chainName = findChainByPaymentMethod(order.payment.method);
+  const chain = chainName ? CHAINS[chainName] : undefined;
+  if (chain?.family !== 'solana') {
+    return [`payment method ${order.payment.method} has no known USDC mint`];
+  }
+
+  const signerIndex = transaction.accountKeys.indexOf(payer);
+  if (signerIndex < 0 || signerIndex >= transaction.numRequiredSignatures) {
+    reasons.push(`payer ${payer} is not a signer of the transaction`);
+  }
+  transaction.signatures.forEach((signature, index) => {
+    if (index !== signerIndex && signature.every(byte => byte === 0)) {
+      reasons.push(`transaction also needs a signature from ${transaction.accountKeys[index]}`);
+    }
+  });
+
+  const transfers = decodeSolanaTokenTransfers(transaction);
+  const usdcTransfers = transfers.filter(transfer => transfer.mint === chain.usdc.address);
+  for (const transfer of transfers.filter(transfer => transfer.mint !== chain.usdc.address)) {
+    reasons.push(
+      transfer.mint
+        ? `transaction transfers tokens of mint ${transfer.mint} instead of USDC ${chain.usdc.address}`
+        : 'transaction contains a token transfer without a mint, which cannot be checked'
+    );
+  }
+
+  const transfer = usdcTransfers.length === 1 ? usdcTransfers[0] : undefined;
+  if (!transfer) {
+    reasons.push(`expected one USDC transfer, found ${usdcTransfers.length}`);
+  } else {
+    if (transfer.authority !== payer) {
+      reasons.push(`USDC transfer is authorized by ${transfer.authority || 'an unknown account'} instead of the payer ${payer}`);
+    }
+    if (transfer.decimals !== chain.usdc.decimals) {
+      reasons.push(`USDC transfer uses ${transfer.decimals} decimals, expected ${chain.usdc.decimals}`);
+    }
+    if (!transfer.destination || transfer.destination === transfer.source) {
+      reasons.push('USDC transfer does not send the payment to another account');
+    }
+  }
+
+  reasons.push(...verifySolanaInstructions(transaction, payer, chain.usdc.address, transfer));
+
+  reasons.push(...verifyQuotedAmount(order, transfer?.amount, chain.usdc.decimals, tolerance));
+
+  return reasons;
+}
+
+/**
+ * Check that every instruction of a Solana transaction is part of paying for the order
+ * Allowed are SPL token transfers, which are checked separately, creating the token account that receives the
+ * USDC transfer, compute budget settings and memos
+ * @param transaction Decoded transaction
+ * @param payer Base58 address of the paying keypair
+ * @param usdcMint USDC mint on the chain
+ * @param transfer The transaction's USDC transfer, if it has exactly one
+ * @returns List of problems, empty if no instruction does anything else
+ */
+function verifySolanaInstructions(
+  transaction: DecodedSolanaTransaction,
+  payer: string,
+  usdcMint: string,
+  transfer: SolanaTokenTransfer | undefined
+): string[] {
+  const reasons: string[] = [];
+  const unexpectedPrograms = new Set<string>();
+
+  for (const instruction of transaction.instructions) {
+    const { programId, accounts, data } = instruction;
+
+    if (SOLANA_FEE_AND_MEMO_PROGRAMS.includes(programId)) {
+      continue;
+    }
+
+    if (SOLANA_TOKEN_PROGRAMS.includes(programId)) {
+      if (!TOKEN_TRANSFER_INSTRUCTIONS.includes(data[0])) {
+        const programName = programId === TOKEN_PROGRAM_ID ? 'Token' : 'Token-2022';
+        reasons.push(`transaction contains unexpected ${programName} instruction ${describeInstruction(TOKEN_INSTRUCTION_NAMES, data[0])}`);
+      }
+    } else if (programId === ASSOCIATED_TOKEN_PROGRAM_ID) {
+      if (data.length > 0 && !ASSOCIATED_TOKEN_CREATE_INSTRUCTIONS.includes(data[0])) {
+        reasons.push(`transaction contains unexpected associated token account instruction ${data[0]}`);
+      } else if (!transfer || accounts[1] !== transfer.destination || accounts[3] !== usdcMint) {
+        reasons.push(`transaction creates token account ${accounts[1] || 'unknown'}, which does not receive the USDC transfer`);
+      }
+    } else if (programId === SYSTEM_PROGRAM_ID) {
+      const systemInstruction = data.length >= 4 ? data.readUInt32LE(0) : undefined;
+      if (systemInstruction !== SYSTEM_TRANSFER_INSTRUCTION) {
+        reasons.push(`transaction contains unexpected System instruction ${describeInstruction(SYSTEM_INSTRUCTION_NAMES, systemInstruction)}`);
+      }
+    } else {
+      unexpectedPrograms.add(programId);
+    }
+  }
+
+  for (const nativeTransfer of decodeSolanaNativeTransfers(transaction)) {
+    const from = nativeTransfer.from === payer ? '' : ` from ${nativeTransfer.from || 'an unknown account'}`;
+    reasons.push(`transaction sends ${ethers.utils.formatUnits(nativeTransfer.lamports, 9)} SOL${from}, expected none`);
+  }
+
+  for (const program of unexpectedPrograms) {
+    reasons.push(`transaction calls unexpected program ${program}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Name an instruction for error messages, e.g. "Approve", or its number if it has no known name
+ */
+function describeInstruction(names: Record<number, string>, discriminator: number | undefined): string {
+  if (discriminator === undefined) {
+    return 'without data';
+  }
+  return names[discriminator] || String(discriminator);
+}
+
+/**
+ * Check a Solana transaction prepared by the API before it is signed
+ * @param order Order being paid
+ * @param transaction Decoded serialized transaction
+ * @param payer Base58 address of the paying keypair
+ * @throws TransactionVerificationError if the transaction does not match the order
+ */
+export function assertSolanaPaymentTransaction(order: Order, transaction: DecodedSolanaTransaction, payer: string): void {
+  const reasons = verifySolanaPaymentTransaction(order, transaction, payer);
+  if (reasons.length > 0) {
+    throw new TransactionVerificationError(reasons);
+  }
+}
@@ -0,0 +1,265 @@
+import { ethers } from 'ethers';
+import { getOrderStatus, summarizeOrderQuote, updateOrderPayment } from './index';
+import { getWalletAddressFromPrivateKey } from './payment';
+import { CHAINS, getChain, listChains } from './chains';
+import { getChainProvider } from './rpc';
+import { evaluateWalletFunds, getRawBalances } from './wallet';
+import { InsufficientFundsError } from './errors';
+import { getDataFilePath, readJsonFile } from './storage';
+
+export type PayerSelectionStrategy = 'chain-priority' | 'cheapest-gas';
+
+/**
+ * A wallet in the pool, with its private key read from an environment variable
+ */
+export interface WalletPoolEntry {
+  name: string;
+  // Name of the environment variable holding the private key, so keys never live in the pool file
+  privateKeyEnv: string;
+  // Chains this wallet may pay on (default: all supported chains)
+  chains?: string[];
+}
+
+/**
+ * Wallet pool loaded from the local pool file
+ */
+export interface WalletPool {
+  strategy?: PayerSelectionStrategy;
+  // Preferred chains, first is most preferred; also breaks ties for cheapest-gas
+  chainPriority?: string[];
+  // USD price of each gas token, e.g. { "ETH": 3000, "POL": 0.5 }, used to compare gas costs across chains
+  gasTokenPricesUsd?: Record<string, number>;
+  wallets: WalletPoolEntry[];
+}
+
+/**
+ * Balances and gas cost of one wallet on one chain
+ */
+export interface PayerCandidate {
+  name: string;
+  address: string;
+  chain: string;
+  usdc: ethers.BigNumber;
+  native: ethers.BigNumber;
+  // Estimated cost of the USDC transfer in the chain's gas token
+  estimatedGasCost: ethers.BigNumber;
+}
+
+/**
+ * Wallet and chain chosen to pay for an order
+ */
+export interface SelectedPayer {
+  name: string;
+  address: string;
+  chain: string;
+  privateKey: string;
+}
+
+// Generous gas limit of an ERC-20 transfer, used to compare and check gas costs before a transaction exists
+const TRANSFER_GAS_LIMIT = 100000;
+
+/**
+ * Get the path of the wallet pool file
+ * @returns WALLET_POOL_FILE if set, otherwise wallets.json in the data directory
+ */
+export function getWalletPoolPath(): string {
+  return process.env.WALLET_POOL_FILE || getDataFilePath('wallets.json');
+}
+
+/**
+ * Load the wallet pool from disk
+ * @param filePath Pool file path
+ * @returns Wallet pool, or null if no pool file exists
+ */
+export function loadWalletPool(filePath: string = getWalletPoolPath()): WalletPool | null {
+  const pool = readJsonFile<WalletPool | null>(filePath, null);
+  if (pool === null) {
+    return null;
+  }
+
+  if (typeof pool !== 'object' || !Array.isArray(pool.wallets) || pool.wallets.length === 0) {
+    throw new Error(`Invalid wallet pool in ${filePath}: expected a "wallets" list`);
+  }
+  if (pool.strategy && pool.strategy !== 'chain-priority' && pool.strategy !== 'cheapest-gas') {
+    throw new Error(`Invalid wallet pool in ${filePath}: unknown strategy ${pool.strategy}`);
+  }
+  for (const wallet of pool.wallets) {
+    if (!wallet.name || !wallet.privateKeyEnv) {
+      throw new Error(`Invalid wallet pool in ${filePath}: every wallet needs a name and privateKeyEnv`);
+    }
+  }
+
+  return pool;
+}
+
+/**
+ * Get the private key of a pool wallet
+ * @param wallet Pool entry
+ * @returns Private key
+ */
+function getPoolPrivateKey(wallet: WalletPoolEntry): string {
+  const privateKey = process.env[wallet.privateKeyEnv];
+  if (!privateKey) {
+    throw new Error(`Private key of pool wallet ${wallet.name} is missing: ${wallet.privateKeyEnv} is not set`);
+  }
+  return privateKey;
+}
+
+/**
+ * Read the balances and current gas cost of a pool wallet on a chain
+ * @param wallet Pool entry
+ * @param chain Payment method
+ * @returns Payer candidate
+ */
+export async function fetchPayerCandidate(wallet: WalletPoolEntry, chain: string): Promise<PayerCandidate> {
+  const address = getWalletAddressFromPrivateKey(getPoolPrivateKey(wallet));
+  const provider = await getChainProvider(chain);
+  const [balances, feeData] = await Promise.all([getRawBalances(address, chain, provider), provider.getFeeData()]);
+  const feePerGas = feeData.maxFeePerGas || feeData.gasPrice || ethers.constants.Zero;
+
+  return {
+    name: wallet.name,
+    address,
+    chain,
+    ...balances,
+    estimatedGasCost: feePerGas.mul(TRANSFER_GAS_LIMIT)
+  };
+}
+
+/**
+ * Sort payer candidates by the pool's preference, most preferred first
+ * @param candidates Candidates in pool order
+ * @param pool Wallet pool
+ * @returns Sorted candidates
+ */
+export function rankPayerCandidates(candidates: PayerCandidate[], pool: WalletPool): PayerCandidate[] {
+  const chainPriority = pool.chainPriority || [];
+  const chainRank = (chain: string) => {
+    const index = chainPriority.indexOf(chain);
+    return index === -1 ? chainPriority.length : index;
+  };
+
+  const gasCostUsd = (candidate: PayerCandidate) => {
+    const price = pool.gasTokenPricesUsd?.[CHAINS[candidate.chain]?.nativeCurrency];
+    return price === undefined ? Infinity : Number(ethers.utils.formatEther(candidate.estimatedGasCost)) * price;
+  };
+
+  // Array.prototype.sort is stable, so equal candidates keep their pool order
+  return [...candidates].sort((a, b) => {
+    if (pool.strategy === 'cheapest-gas') {
+      const costA = gasCostUsd(a);
+      const costB = gasCostUsd(b);
+      if (costA !== costB) {
+        return costA < costB ? -1 : 1;
+      }
+    }
+    return chainRank(a.chain) - chainRank(b.chain);
+  });
+}
+
+/**
+ * Pick the pool wallet and chain to pay with
+ * @param pool Wallet pool
+ * @param options Required USDC amount if the quote is known, and a chain to restrict the choice to
+ * @param getCandidate Reads a wallet's balances on a chain
+ * @returns Most preferred wallet and chain that can cover the amount plus gas
+ * @throws InsufficientFundsError if no wallet can pay
+ */
+export async function selectPayer(
+  pool: WalletPool,
+  options: { requiredUsdc?: ethers.BigNumber; chain?: string } = {},
+  getCandidate: (wallet: WalletPoolEntry, chain: string) => Promise<PayerCandidate> = fetchPayerCandidate
+): Promise<SelectedPayer> {
+  const pairs = pool.wallets.flatMap(wallet =>
+    (wallet.chains || listChains({ family: 'evm' }))
+      .filter(chain => !options.chain || chain === options.chain)
+      .map(chain => ({ wallet, chain }))
+  );
+
+  const shortfalls: string[] = [];
+  const results = await Promise.all(
+    pairs.map(async ({ wallet, chain }) => {
+      try {
+        return await getCandidate(wallet, chain);
+      } catch (error) {
+        shortfalls.push(`${wallet.name} on ${chain}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    })
+  );
+
+  const candidates = results.filter((candidate): candidate is PayerCandidate => {
+    if (!candidate) {
+      return false;
+    }
+    const problems = evaluateWalletFunds(candidate.chain, candidate, {
+      usdc: options.requiredUsdc,
+      gas: candidate.estimatedGasCost.isZero() ? undefined : candidate.estimatedGasCost
+    });
+    shortfalls.push(...problems.map(problem => `${candidate.name}: ${problem}`));
+    return problems.length === 0;
+  });
+
+  const [best] = rankPayerCandidates(candidates, pool);
+  if (!best) {
+    throw new InsufficientFundsError(`No wallet in the pool can pay: ${shortfalls.join('; ') || 'no wallet is configured for this chain'}`);
+  }
+
+  const wallet = pool.wallets.find(entry => entry.name === best.name) as WalletPoolEntry;
+  return { name: best.name, address: best.address, chain: best.chain, privateKey: getPoolPrivateKey(wallet) };
+}
+
+/**
+ * Find the pool wallet with a given address
+ * @param pool Wallet pool
+ * @param address Wallet address
+ * @param chain Chain the wallet pays on
+ * @returns Pool wallet, or undefined if the address is not in the pool
+ */
+export function findPoolPayer(pool: WalletPool, address: string, chain: string): SelectedPayer | undefined {
+  for (const wallet of pool.wallets) {
+    const privateKey = process.env[wallet.privateKeyEnv];
+    if (privateKey && getWalletAddressFromPrivateKey(privateKey).toLowerCase() === address.toLowerCase()) {
+      return { name: wallet.name, address: getWalletAddressFromPrivateKey(privateKey), chain, privateKey };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Make sure the payer of a quoted order can cover the quote, switching the order to another pool wallet if not
+ * @param orderId Order ID
+ * @param apiKey Crossmint API key
+ * @param pool Wallet pool
+ * @param payer Wallet the order was created with
+ * @param chain Chain to restrict the choice to
+ * @returns Wallet and chain that will pay
+ */
+export async function ensureOrderPayer(
+  orderId: string,
+  apiKey: string,
+  pool: WalletPool,
+  payer: SelectedPayer,
+  chain?: string
+): Promise<SelectedPayer> {
+  const quote = summarizeOrderQuote(await getOrderStatus(orderId, apiKey));
+  if (!quote.totalPrice) {
+    return payer;
+  }
+
+  const { decimals } = getChain(payer.chain).usdc;
+  const requiredUsdc = ethers.utils.parseUnits(Number(quote.totalPrice.amount).toFixed(decimals), decimals);
+  const current = pool.wallets.find(wallet => wallet.name === payer.name);
+  const currentCandidate = current ? await fetchPayerCandidate(current, payer.chain) : undefined;
+  if (
+    currentCandidate &&
+    evaluateWalletFunds(payer.chain, currentCandidate, { usdc: requiredUsdc, gas: currentCandidate.estimatedGasCost }).length === 0
+  ) {
+    return payer;
+  }
+
+  const selected = await selectPayer(pool, { requiredUsdc, chain });
+  console.log(`Wallet ${payer.name} cannot cover the quote, switching to ${selected.name} on ${selected.chain}`);
+  await updateOrderPayment(orderId, apiKey, selected.chain, selected.address);
+  return selected;
+}
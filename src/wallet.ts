@@ -0,0 +1,151 @@
+import { ethers } from 'ethers';
+import { getChainProvider } from './rpc';
+import { CHAINS, getEvmChain, listChains } from './chains';
+import { InsufficientFundsError } from './errors';
+
+/**
+ * USDC and gas token balances of a wallet on one chain
+ */
+export interface WalletBalance {
+  chain: string;
+  address: string;
+  // Formatted amounts, e.g. "12.5"; undefined if the balance could not be read
+  usdc?: string;
+  native?: string;
+  nativeCurrency: string;
+  error?: string;
+}
+
+/**
+ * Amounts a wallet must hold to pay for an order
+ * Omitted amounts only require a non-zero balance
+ */
+export interface RequiredFunds {
+  usdc?: ethers.BigNumber;
+  gas?: ethers.BigNumber;
+}
+
+const ERC20_BALANCE_INTERFACE = ['function balanceOf(address owner) view returns (uint256)'];
+
+/**
+ * Read the raw USDC and gas token balances of a wallet
+ * @param address Wallet address
+ * @param chain Payment method, e.g. "base"
+ * @param provider Provider connected to the chain (default: the chain's configured RPC endpoints)
+ * @returns Balances in the smallest unit of each token
+ */
+export async function getRawBalances(
+  address: string,
+  chain: string,
+  provider?: ethers.providers.Provider
+): Promise<{ usdc: ethers.BigNumber; native: ethers.BigNumber }> {
+  const config = getEvmChain(chain);
+  const chainProvider = provider || (await getChainProvider(chain));
+  const usdc = new ethers.Contract(config.usdc.address, ERC20_BALANCE_INTERFACE, chainProvider);
+  const [usdcBalance, nativeBalance] = await Promise.all([usdc.balanceOf(address), chainProvider.getBalance(address)]);
+  return { usdc: usdcBalance, native: nativeBalance };
+}
+
+/**
+ * Get the USDC and gas token balances of a wallet on every supported chain
+ * A chain that cannot be reached is reported with an error instead of failing the whole lookup
+ * @param address Wallet address
+ * @param chains Payment methods to check (default: all supported EVM chains)
+ * @returns Balance per chain
+ */
+export async function getWalletBalances(
+  address: string,
+  chains: string[] = listChains({ family: 'evm' })
+): Promise<WalletBalance[]> {
+  return Promise.all(
+    chains.map(async chain => {
+      const nativeCurrency = CHAINS[chain]?.nativeCurrency || 'unknown';
+      try {
+        const balances = await getRawBalances(address, chain);
+        return {
+          chain,
+          address,
+          usdc: ethers.utils.formatUnits(balances.usdc, CHAINS[chain].usdc.decimals),
+          native: ethers.utils.formatEther(balances.native),
+          nativeCurrency
+        };
+      } catch (error) {
+        return { chain, address, nativeCurrency, error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+}
+
+/**
+ * Compare a wallet's balances with the funds needed for an order
+ * @param chain Payment method
+ * @param balances Raw USDC and gas token balances
+ * @param required Required USDC and gas amounts
+ * @returns List of shortfalls, empty if the wallet can pay
+ */
+export function evaluateWalletFunds(
+  chain: string,
+  balances: { usdc: ethers.BigNumber; native: ethers.BigNumber },
+  required: RequiredFunds = {}
+): string[] {
+  const shortfalls: string[] = [];
+  const nativeCurrency = CHAINS[chain]?.nativeCurrency || 'gas token';
+  const usdcDecimals = CHAINS[chain]?.usdc.decimals ?? 6;
+
+  if (required.usdc === undefined ? balances.usdc.isZero() : balances.usdc.lt(required.usdc)) {
+    const needed = required.usdc ? `, needs ${ethers.utils.formatUnits(required.usdc, usdcDecimals)}` : '';
+    shortfalls.push(`USDC balance on ${chain} is ${ethers.utils.formatUnits(balances.usdc, usdcDecimals)}${needed}`);
+  }
+
+  if (required.gas === undefined ? balances.native.isZero() : balances.native.lt(required.gas)) {
+    const needed = required.gas ? `, needs about ${ethers.utils.formatEther(required.gas)}` : '';
+    shortfalls.push(`${nativeCurrency} balance on ${chain} is ${ethers.utils.formatEther(balances.native)}${needed}`);
+  }
+
+  return shortfalls;
+}
+
+/**
+ * Check that a wallet holds enough USDC and gas on a chain
+ * @param address Wallet address
+ * @param chain Payment method
+ * @param required Required USDC and gas amounts
+ * @param provider Provider connected to the chain
+ * @throws InsufficientFundsError if the wallet cannot pay
+ */
+export async function assertWalletFunds(
+  address: string,
+  chain: string,
+  required: RequiredFunds = {},
+  provider?: ethers.providers.Provider
+): Promise<void> {
+  const balances = await getRawBalances(address, chain, provider);
+  const shortfalls = evaluateWalletFunds(chain, balances, required);
+  if (shortfalls.length > 0) {
+    throw new InsufficientFundsError(`Wallet ${address} cannot pay: ${shortfalls.join('; ')}`);
+  }
+}
+
+/**
+ * Estimate the most a transaction can cost in gas
+ * @param transaction Parsed transaction
+ * @param provider Provider connected to the transaction's chain
+ * @returns Gas limit times the maximum fee per gas, or undefined if the gas limit is not set
+ */
+export async function estimateMaxGasCost(
+  transaction: ethers.Transaction,
+  provider: ethers.providers.Provider
+): Promise<ethers.BigNumber | undefined> {
+  if (transaction.gasLimit.isZero()) {
+    return undefined;
+  }
+
+  // Unsigned legacy transactions parse a missing gas price as zero
+  let feePerGas = transaction.maxFeePerGas || transaction.gasPrice;
+  if (!feePerGas || feePerGas.isZero()) {
+    const feeData = await provider.getFeeData();
+    feePerGas = feeData.maxFeePerGas || feeData.gasPrice || undefined;
+  }
+
+  return feePerGas ? transaction.gasLimit.mul(feePerGas) : undefined;
+}
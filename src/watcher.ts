@@ -0,0 +1,295 @@
+import { getOrderStatus, OrderStatusResponse } from './index';
+import { ApiError, PollingTimeoutError } from './errors';
+
+export type OrderWatchEvent =
+  | { type: 'phase-changed'; orderId: string; previous?: string; phase: string; status: OrderStatusResponse }
+  | { type: 'payment-status-changed'; orderId: string; previous?: string; paymentStatus: string; status: OrderStatusResponse }
+  | { type: 'quote-status-changed'; orderId: string; previous?: string; quoteStatus: string; status: OrderStatusResponse }
+  | { type: 'preparation-ready'; orderId: string; serializedTransaction: string; status: OrderStatusResponse }
+  | {
+      type: 'delivery-status-changed';
+      orderId: string;
+      lineItemIndex: number;
+      previous?: string;
+      deliveryStatus: string;
+      status: OrderStatusResponse;
+    }
+  | {
+      type: 'delivery-tracking-changed';
+      orderId: string;
+      lineItemIndex: number;
+      carrier?: string;
+      trackingNumber: string;
+      status: OrderStatusResponse;
+    }
+  | { type: 'terminal'; orderId: string; state: OrderTerminalState; status: OrderStatusResponse };
+
+export type OrderTerminalState = 'completed' | 'delivery-failed' | 'payment-failed' | 'payment-canceled' | 'quote-expired';
+
+/**
+ * Options for watching an order
+ */
+export interface WatchOrderOptions {
+  apiKey: string;
+  // Delay before the next poll, multiplied by backoffFactor after every poll without changes
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  // Overall time limit, after which a PollingTimeoutError is thrown
+  timeoutMs?: number;
+  // Maximum number of polls, after which a PollingTimeoutError is thrown
+  maxAttempts?: number;
+  // Consecutive API errors tolerated before the last one is thrown
+  maxConsecutiveErrors?: number;
+  // Stops watching quietly when aborted
+  signal?: AbortSignal;
+}
+
+const DEFAULT_INITIAL_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_BACKOFF_FACTOR = 1.5;
+const DEFAULT_MAX_CONSECUTIVE_ERRORS = 5;
+
+/**
+ * Determine whether an order has reached a state it will not leave
+ * @param statusResponse Order status response
+ * @returns Terminal state, or undefined if the order is still in progress
+ */
+export function getOrderTerminalState(statusResponse: OrderStatusResponse): OrderTerminalState | undefined {
+  const order = statusResponse.order || statusResponse;
+  const paymentStatus = order.payment?.status;
+  // Items that have not reported a delivery status yet keep the deliveries open
+  const deliveryStatuses = (statusResponse.order?.lineItems || []).map(lineItem => lineItem.delivery?.status);
+  const deliveriesFinal =
+    deliveryStatuses.length > 0 && deliveryStatuses.every(status => status === 'completed' || status === 'failed');
+  const deliveryFailed = deliveryStatuses.some(status => status === 'failed');
+  const phaseCompleted = order.phase === 'completed' || order.phase === 'complete';
+
+  if (paymentStatus === 'failed') {
+    return 'payment-failed';
+  }
+  if (paymentStatus === 'canceled') {
+    return 'payment-canceled';
+  }
+  if (order.quote?.status === 'expired' && paymentStatus !== 'completed') {
+    return 'quote-expired';
+  }
+  // A failed item outweighs a completed phase, so the order is still tracked for its refund
+  if (deliveryFailed && (deliveriesFinal || phaseCompleted)) {
+    return 'delivery-failed';
+  }
+  if (phaseCompleted || deliveriesFinal) {
+    return 'completed';
+  }
+  return undefined;
+}
+
+/**
+ * Wait for a delay, returning early if the signal is aborted
+ */
+export function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, delayMs);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Last seen state of an order, used to detect changes between status responses
+ */
+export interface OrderSnapshot {
+  phase?: string;
+  paymentStatus?: string;
+  quoteStatus?: string;
+  preparationReported?: boolean;
+  deliveryStatuses?: Array<string | undefined>;
+  trackingNumbers?: Array<string | undefined>;
+  terminalState?: OrderTerminalState;
+}
+
+/**
+ * Turns successive status responses of one order into change events
+ * Shared by polling and webhooks so both report the same events
+ */
+export class OrderEventTracker {
+  private snapshot: OrderSnapshot;
+
+  constructor(private readonly orderId: string, initial: OrderSnapshot = {}) {
+    this.snapshot = {
+      ...initial,
+      deliveryStatuses: [...(initial.deliveryStatuses || [])],
+      trackingNumbers: [...(initial.trackingNumbers || [])]
+    };
+  }
+
+  /**
+   * Compare a status response with the last seen state
+   * @param status Order status response
+   * @returns Events for everything that changed, ending with a terminal event if the order is finished
+   */
+  update(status: OrderStatusResponse): OrderWatchEvent[] {
+    const orderId = this.orderId;
+    const last = this.snapshot;
+    const lastDeliveryStatuses = last.deliveryStatuses || [];
+    const lastTrackingNumbers = last.trackingNumbers || [];
+    const events: OrderWatchEvent[] = [];
+
+    const order = status.order || status;
+    const phase = order.phase || 'unknown';
+    const paymentStatus = order.payment?.status || 'unknown';
+    const quoteStatus = order.quote?.status || 'unknown';
+
+    if (phase !== last.phase) {
+      events.push({ type: 'phase-changed', orderId, previous: last.phase, phase, status });
+    }
+
+    if (paymentStatus !== last.paymentStatus) {
+      events.push({ type: 'payment-status-changed', orderId, previous: last.paymentStatus, paymentStatus, status });
+    }
+
+    if (quoteStatus !== last.quoteStatus) {
+      events.push({ type: 'quote-status-changed', orderId, previous: last.quoteStatus, quoteStatus, status });
+    }
+
+    const serializedTransaction = order.payment?.preparation?.serializedTransaction;
+    if (serializedTransaction && !last.preparationReported) {
+      events.push({ type: 'preparation-ready', orderId, serializedTransaction, status });
+    }
+
+    const lineItems = status.order?.lineItems || [];
+    const deliveryStatuses = [...lastDeliveryStatuses];
+    const trackingNumbers = [...lastTrackingNumbers];
+    for (let index = 0; index < lineItems.length; index++) {
+      const delivery = lineItems[index].delivery;
+      const deliveryStatus = delivery?.status;
+      if (deliveryStatus && deliveryStatus !== lastDeliveryStatuses[index]) {
+        events.push({
+          type: 'delivery-status-changed',
+          orderId,
+          lineItemIndex: index,
+          previous: lastDeliveryStatuses[index],
+          deliveryStatus,
+          status
+        });
+        deliveryStatuses[index] = deliveryStatus;
+      }
+
+      // A tracking number that arrives with a new delivery status is reported by the status change
+      const trackingNumber = delivery?.trackingNumber;
+      const statusChanged = deliveryStatuses[index] !== lastDeliveryStatuses[index];
+      if (trackingNumber && trackingNumber !== lastTrackingNumbers[index] && !statusChanged) {
+        events.push({
+          type: 'delivery-tracking-changed',
+          orderId,
+          lineItemIndex: index,
+          carrier: delivery?.carrier,
+          trackingNumber,
+          status
+        });
+      }
+      if (trackingNumber) {
+        trackingNumbers[index] = trackingNumber;
+      }
+    }
+
+    const terminalState = getOrderTerminalState(status);
+    if (terminalState && terminalState !== last.terminalState) {
+      events.push({ type: 'terminal', orderId, state: terminalState, status });
+    }
+
+    this.snapshot = {
+      phase,
+      paymentStatus,
+      quoteStatus,
+      preparationReported: last.preparationReported || Boolean(serializedTransaction),
+      deliveryStatuses,
+      trackingNumbers,
+      terminalState
+    };
+
+    return events;
+  }
+}
+
+/**
+ * Watch an order, yielding an event whenever its phase, payment, quote, delivery status or tracking number changes
+ * Iteration ends after the terminal event or when the signal is aborted
+ * @param orderId Order ID
+ * @param options API key, backoff, deadline and cancellation options
+ * @returns Async iterator of order events
+ */
+export async function* watchOrder(orderId: string, options: WatchOrderOptions): AsyncGenerator<OrderWatchEvent> {
+  const initialDelayMs = options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const backoffFactor = options.backoffFactor ?? DEFAULT_BACKOFF_FACTOR;
+  const maxConsecutiveErrors = options.maxConsecutiveErrors ?? DEFAULT_MAX_CONSECUTIVE_ERRORS;
+  const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined;
+  const signal = options.signal;
+
+  const tracker = new OrderEventTracker(orderId);
+
+  let delayMs = initialDelayMs;
+  let attempts = 0;
+  let consecutiveErrors = 0;
+
+  while (!signal?.aborted) {
+    attempts++;
+
+    let status: OrderStatusResponse | undefined;
+    try {
+      status = await getOrderStatus(orderId, options.apiKey);
+      consecutiveErrors = 0;
+    } catch (error) {
+      // Transient API errors are retried, anything else is a bug or a final answer
+      consecutiveErrors++;
+      if (!(error instanceof ApiError) || consecutiveErrors >= maxConsecutiveErrors) {
+        throw error;
+      }
+      console.error(`Error polling order status: ${error.message}`);
+    }
+
+    if (signal?.aborted) {
+      return;
+    }
+
+    const events = status ? tracker.update(status) : [];
+
+    // The consumer may abort while handling any event, so check before each one
+    for (const event of events) {
+      if (signal?.aborted) {
+        return;
+      }
+      yield event;
+      if (event.type === 'terminal') {
+        return;
+      }
+    }
+
+    if (options.maxAttempts !== undefined && attempts >= options.maxAttempts) {
+      throw new PollingTimeoutError(`Order ${orderId} did not reach the expected state after ${attempts} attempts`);
+    }
+
+    // Poll quickly while the order is changing and back off while it is idle
+    delayMs = events.length > 0 ? initialDelayMs : Math.min(maxDelayMs, delayMs * backoffFactor);
+
+    if (deadline !== undefined) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new PollingTimeoutError(`Order ${orderId} did not reach the expected state within ${options.timeoutMs}ms`);
+      }
+      await sleep(Math.min(delayMs, remainingMs), signal);
+    } else {
+      await sleep(delayMs, signal);
+    }
+  }
+}
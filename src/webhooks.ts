@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import http from 'http';
+import { normalizeOrderStatusResponse, recordStatusResponse } from './index';
+import { getOrderRecord } from './order-history';
+import { OrderEventTracker, OrderWatchEvent } from './watcher';
+import { WebhookVerificationError } from './errors';
+import { getDataFilePath, readJsonFile, writeJsonFile } from './storage';
+
+/**
+ * Order webhook sent by Crossmint, e.g. "orders.payment.succeeded" or "orders.delivery.completed"
+ */
+export interface WebhookEvent {
+  type: string;
+  // The order, in the same shape as the get order response
+  data?: any;
+  payload?: any;
+}
+
+/**
+ * Headers identifying and authenticating a webhook delivery
+ */
+export interface WebhookHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Options for the local webhook receiver
+ */
+export interface WebhookServerOptions {
+  // Signing secret of the webhook endpoint, usually starting with "whsec_"
+  secret: string;
+  // URL path webhooks are posted to
+  path?: string;
+  // Maximum age of a webhook before it is rejected as a possible replay
+  toleranceSeconds?: number;
+  // Called for each order change, with the same events watchOrder yields while polling
+  onEvent?: (event: OrderWatchEvent) => void;
+}
+
+interface ProcessedWebhookStore {
+  // Webhook ID to the time it was processed
+  processed: Record<string, string>;
+}
+
+export const DEFAULT_WEBHOOK_PATH = '/webhooks/crossmint';
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+const MAX_WEBHOOK_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Get the path of the processed webhook store file
+ * @returns webhook-events.json in the data directory
+ */
+export function getProcessedWebhookStorePath(): string {
+  return getDataFilePath('webhook-events.json');
+}
+
+function loadProcessedWebhookStore(): ProcessedWebhookStore {
+  return readJsonFile<ProcessedWebhookStore>(getProcessedWebhookStorePath(), { processed: {} });
+}
+
+/**
+ * Decode a webhook signing secret into the HMAC key
+ * @param secret Signing secret, either "whsec_" followed by base64 or a plain string
+ * @returns HMAC key
+ */
+function getSigningKey(secret: string): Buffer {
+  return secret.startsWith('whsec_') ? Buffer.from(secret.slice('whsec_'.length), 'base64') : Buffer.from(secret, 'utf8');
+}
+
+/**
+ * Sign a webhook payload the way Crossmint does, e.g. to post sample payloads to a local receiver
+ * @param secret Signing secret
+ * @param id Webhook ID
+ * @param timestamp Unix timestamp in seconds
+ * @param body Raw request body
+ * @returns Signature header value
+ */
+export function signWebhookPayload(secret: string, id: string, timestamp: number | string, body: string): string {
+  const signature = crypto
+    .createHmac('sha256', getSigningKey(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Check the signature and age of a webhook
+ * @param secret Signing secret
+ * @param headers Webhook ID, timestamp and signature headers
+ * @param body Raw request body
+ * @param toleranceSeconds Maximum difference between the webhook timestamp and now
+ * @param now Current time
+ * @throws WebhookVerificationError if the webhook is not authentic or too old
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: WebhookHeaders,
+  body: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  now: Date = new Date()
+): void {
+  if (!headers.id || !headers.timestamp || !headers.signature) {
+    throw new WebhookVerificationError('Missing webhook ID, timestamp or signature header');
+  }
+
+  const timestamp = Number(headers.timestamp);
+  if (!Number.isInteger(timestamp)) {
+    throw new WebhookVerificationError(`Invalid webhook timestamp: ${headers.timestamp}`);
+  }
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) {
+    throw new WebhookVerificationError(`Webhook timestamp ${timestamp} is outside the ${toleranceSeconds}s tolerance`);
+  }
+
+  // The header may carry several space separated signatures while the secret is being rotated
+  const expected = Buffer.from(signWebhookPayload(secret, headers.id, headers.timestamp, body));
+  const matches = headers.signature.split(' ').some(signature => {
+    const candidate = Buffer.from(signature);
+    return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+  });
+  if (!matches) {
+    throw new WebhookVerificationError('Invalid webhook signature');
+  }
+}
+
+/**
+ * Check whether a webhook was already applied
+ * @param id Webhook ID
+ * @returns True if the webhook ID was seen within the replay window
+ */
+export function isWebhookProcessed(id: string): boolean {
+  return loadProcessedWebhookStore().processed[id] !== undefined;
+}
+
+/**
+ * Remember a webhook ID so the same delivery is never applied twice
+ * IDs older than the replay window are forgotten, since their timestamps no longer pass verification
+ * @param id Webhook ID
+ * @param toleranceSeconds Webhook timestamp tolerance
+ * @param now Current time
+ */
+export function markWebhookProcessed(
+  id: string,
+  toleranceSeconds: number = DEFAULT_WEBHOOK_TOLERANCE_SECONDS,
+  now: Date = new Date()
+): void {
+  const store = loadProcessedWebhookStore();
+
+  // Keep IDs for twice the tolerance to cover clock skew in both directions
+  const cutoff = now.getTime() - 2 * toleranceSeconds * 1000;
+  for (const [processedId, processedAt] of Object.entries(store.processed)) {
+    if (new Date(processedAt).getTime() < cutoff) {
+      delete store.processed[processedId];
+    }
+  }
+
+  store.processed[id] = now.toISOString();
+  writeJsonFile(getProcessedWebhookStorePath(), store);
+}
+
+/**
+ * Check that a parsed webhook body has the shape of a webhook event
+ * @param value Parsed JSON body
+ * @returns True for an object with a string type and an object as data or payload
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  const isPlainObject = (candidate: unknown): candidate is Record<string, unknown> =>
+    typeof candidate === 'object' && candidate !== null && !Array.isArray(candidate);
+
+  if (!isPlainObject(value) || typeof value.type !== 'string') {
+    return false;
+  }
+  return isPlainObject(value.data) || (value.data === undefined && isPlainObject(value.payload));
+}
+
+/**
+ * Apply an order webhook to the local order history
+ * @param event Webhook event
+ * @param trackers Change trackers by order ID, kept between webhooks to report only what changed
+ * @returns Order events for the changes in the webhook
+ */
+export function applyWebhookEvent(event: WebhookEvent, trackers: Map<string, OrderEventTracker>): OrderWatchEvent[] {
+  const data = event.data ?? event.payload;
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+
+  const statusResponse = normalizeOrderStatusResponse(data);
+  const orderId = statusResponse.order?.orderId || statusResponse.orderId;
+  if (!orderId) {
+    return [];
+  }
+
+  let tracker = trackers.get(orderId);
+  if (!tracker) {
+    // Start from the stored state so a restarted receiver does not report old changes again
+    const record = getOrderRecord(orderId);
+    tracker = new OrderEventTracker(orderId, {
+      phase: record?.phase,
+      paymentStatus: record?.paymentStatus,
+      quoteStatus: record?.quoteStatus
+    });
+    trackers.set(orderId, tracker);
+  }
+
+  const events = tracker.update(statusResponse);
+  recordStatusResponse(orderId, statusResponse);
+  return events;
+}
+
+/**
+ * Read a request body up to the size limit
+ */
+function readRequestBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_WEBHOOK_BODY_BYTES) {
+        reject(new Error('Webhook body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Get a single header value
+ */
+function getHeader(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Create an HTTP server that receives Crossmint order webhooks
+ * Webhooks are verified, checked for replays and applied to the local order history
+ * @param options Secret, path, tolerance and event handler
+ * @returns HTTP server, not yet listening
+ */
+export function createWebhookServer(options: WebhookServerOptions): http.Server {
+  const webhookPath = options.path || DEFAULT_WEBHOOK_PATH;
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  const trackers = new Map<string, OrderEventTracker>();
+
+  const respond = (res: http.ServerResponse, status: number, body: Record<string, unknown>) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  return http.createServer(async (req, res) => {
+    if (req.method !== 'POST' || req.url?.split('?')[0] !== webhookPath) {
+      respond(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readRequestBody(req);
+    } catch (error) {
+      respond(res, 413, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const headers: WebhookHeaders = {
+      id: getHeader(req, 'svix-id'),
+      timestamp: getHeader(req, 'svix-timestamp'),
+      signature: getHeader(req, 'svix-signature')
+    };
+
+    try {
+      verifyWebhookSignature(options.secret, headers, body, toleranceSeconds);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Rejected webhook: ${message}`);
+      respond(res, 401, { error: message });
+      return;
+    }
+
+    const webhookId = headers.id as string;
+    if (isWebhookProcessed(webhookId)) {
+      console.error(`Rejected webhook: ${webhookId} was already processed`);
+      respond(res, 409, { error: `Webhook ${webhookId} was already processed` });
+      return;
+    }
+
+    let event: unknown;
+    try {
+      event = JSON.parse(body);
+    } catch {
+      respond(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+    if (!isWebhookEvent(event)) {
+      respond(res, 400, { error: 'Webhook body must be an object with a string "type" and an object "data"' });
+      return;
+    }
+
+    try {
+      const events = applyWebhookEvent(event, trackers);
+      // Only mark the webhook once it was applied, so a failed delivery can be retried
+      markWebhookProcessed(webhookId, toleranceSeconds);
+      events.forEach(orderEvent => options.onEvent?.(orderEvent));
+      respond(res, 200, { received: true, events: events.length });
+    } catch (error) {
+      console.error(`Error handling webhook ${webhookId}: ${error instanceof Error ? error.message : String(error)}`);
+      respond(res, 500, { error: 'Failed to handle webhook' });
+    }
+  });
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  formatShippingAddress,
+  getAddressProfile,
+  listAddressProfiles,
+  loadAddressBook,
+  removeAddressProfile,
+  resolveAddressProfile,
+  saveAddressProfile,
+  setDefaultAddressProfile
+} from '../src/address-book';
+import { ShippingAddress } from '../src/index';
+
+describe('Address Book', () => {
+  const office: ShippingAddress = {
+    name: 'Jane Doe',
+    line1: '1 Main St',
+    line2: 'Suite 200',
+    city: 'Springfield',
+    state: 'IL',
+    postalCode: '62701',
+    country: 'US'
+  };
+  const home: ShippingAddress = { ...office, line1: '2 Elm St', line2: undefined };
+  let dataDir: string;
+  let bookPath: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'address-book-'));
+    bookPath = path.join(dataDir, 'addresses.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should save, list and remove profiles', () => {
+    saveAddressProfile('office', office, { email: 'ops@example.com' }, bookPath);
+    saveAddressProfile('home', home, {}, bookPath);
+
+    expect(listAddressProfiles(bookPath).map(profile => profile.name)).toEqual(['home', 'office']);
+    expect(getAddressProfile('office', bookPath)).toMatchObject({ address: office, email: 'ops@example.com' });
+
+    removeAddressProfile('home', bookPath);
+    expect(listAddressProfiles(bookPath).map(profile => profile.name)).toEqual(['office']);
+    expect(() => removeAddressProfile('home', bookPath)).toThrow('Unknown address profile: home. Saved profiles are: office');
+  });
+
+  it('should refuse incomplete addresses, bad names and silent overwrites', () => {
+    expect(() => saveAddressProfile('office', { ...office, city: ' ' }, {}, bookPath)).toThrow(
+      'Invalid shipping address: city is required'
+    );
+    expect(() => saveAddressProfile('my office', office, {}, bookPath)).toThrow('Invalid address profile name');
+
+    const saved = saveAddressProfile('office', office, {}, bookPath);
+    expect(() => saveAddressProfile('office', home, {}, bookPath)).toThrow('already exists, use --force');
+
+    const replaced = saveAddressProfile('office', home, { replace: true }, bookPath);
+    expect(replaced.address).toEqual(home);
+    expect(replaced.createdAt).toBe(saved.createdAt);
+  });
+
+  it('should resolve the named profile, then the default profile', () => {
+    expect(resolveAddressProfile(undefined, bookPath)).toBeUndefined();
+
+    saveAddressProfile('office', office, { makeDefault: true }, bookPath);
+    saveAddressProfile('home', home, {}, bookPath);
+    expect(resolveAddressProfile(undefined, bookPath)?.name).toBe('office');
+    expect(resolveAddressProfile('home', bookPath)?.address).toEqual(home);
+
+    setDefaultAddressProfile('home', bookPath);
+    expect(resolveAddressProfile(undefined, bookPath)?.name).toBe('home');
+
+    removeAddressProfile('home', bookPath);
+    expect(loadAddressBook(bookPath).defaultProfile).toBeUndefined();
+    expect(() => resolveAddressProfile('home', bookPath)).toThrow('Unknown address profile: home');
+  });
+
+  it('should format addresses on one line', () => {
+    expect(formatShippingAddress(office)).toBe('Jane Doe, 1 Main St, Suite 200, Springfield, IL 62701, US');
+    expect(formatShippingAddress(home)).toBe('Jane Doe, 2 Elm St, Springfield, IL 62701, US');
+  });
+});
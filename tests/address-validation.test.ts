@@ -0,0 +1,83 @@
+import {
+  checkShippingAddress,
+  CountryAddressRules,
+  findCountryRules,
+  isPoBox,
+  normalizeState,
+  validateShippingAddress,
+  COUNTRY_ADDRESS_RULES
+} from '../src/address-validation';
+import { InvalidAddressError } from '../src/errors';
+import { ShippingAddress } from '../src/index';
+
+describe('Address Validation', () => {
+  const address: ShippingAddress = {
+    name: 'Jane Doe',
+    line1: '1 Main St',
+    city: 'Springfield',
+    state: 'IL',
+    postalCode: '62701',
+    country: 'US'
+  };
+
+  it('should normalize US states, ZIP+4 codes and country names', () => {
+    expect(validateShippingAddress({
+      ...address,
+      name: ' Jane Doe ',
+      line2: ' ',
+      state: 'illinois',
+      postalCode: '627011234',
+      country: 'United States'
+    })).toEqual({ ...address, postalCode: '62701-1234' });
+
+    const us = COUNTRY_ADDRESS_RULES.US;
+    expect(normalizeState('N.Y.', us)).toBe('NY');
+    expect(normalizeState('new  york', us)).toBe('NY');
+    expect(normalizeState('Ontario', us)).toBeUndefined();
+    expect(findCountryRules('usa')?.code).toBe('US');
+  });
+
+  it('should list every problem with an address', () => {
+    expect(checkShippingAddress({ ...address, city: '', state: 'XX', postalCode: '6270' }).problems).toEqual([
+      'city is required',
+      'state XX is not a United States state or region code',
+      'postal code 6270 is not valid in United States, e.g. 62701 or 62701-1234'
+    ]);
+
+    expect(() => validateShippingAddress({ ...address, country: 'FR' })).toThrow(
+      new InvalidAddressError(['country FR is not supported, use one of: US'])
+    );
+  });
+
+  it('should reject US PO boxes', () => {
+    for (const line of ['PO Box 12', 'P.O. Box 12', 'post office box 9', 'POB 4']) {
+      expect(isPoBox(line)).toBe(true);
+    }
+    expect(isPoBox('12 Boxwood Rd')).toBe(false);
+
+    expect(checkShippingAddress({ ...address, line2: 'P.O. Box 12' }).problems).toEqual([
+      'orders to United States cannot ship to PO boxes'
+    ]);
+  });
+
+  it('should apply the rules of other countries from data alone', () => {
+    const rules: Record<string, CountryAddressRules> = {
+      ...COUNTRY_ADDRESS_RULES,
+      CA: {
+        name: 'Canada',
+        aliases: ['CAN', 'CANADA'],
+        postalCode: {
+          pattern: /^[A-Z]\d[A-Z] \d[A-Z]\d$/,
+          example: 'K1A 0B1',
+          normalize: postalCode => postalCode.replace(/^([A-Z]\d[A-Z])\s*(\d[A-Z]\d)$/, '$1 $2')
+        },
+        allowPoBox: true
+      }
+    };
+
+    expect(checkShippingAddress({ ...address, line1: 'PO Box 5', state: 'Ontario', postalCode: 'k1a0b1', country: 'canada' }, rules)).toEqual({
+      address: { ...address, line1: 'PO Box 5', state: 'Ontario', postalCode: 'K1A 0B1', country: 'CA' },
+      problems: []
+    });
+  });
+});
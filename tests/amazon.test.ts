@@ -0,0 +1,72 @@
+import { AMAZON_MARKETPLACES, createAmazonProductLocator, findAmazonMarketplace, parseAmazonUrl } from '../src/amazon';
+import { UnsupportedMarketplaceError } from '../src/errors';
+import { AmazonSource } from '../src/index';
+
+describe('Amazon URLs', () => {
+  describe('parseAmazonUrl', () => {
+    // [description, URL, ASIN, marketplace domain]
+    const productUrls: Array<[string, string, string, string]> = [
+      ['short product page', 'https://www.amazon.com/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['product page with title and ref', 'https://www.amazon.com/Echo-Dot/dp/B01DFKC2SO/ref=sr_1_1?keywords=echo', 'B01DFKC2SO', 'amazon.com'],
+      ['dp/product path', 'https://www.amazon.com/dp/product/B01DFKC2SO/', 'B01DFKC2SO', 'amazon.com'],
+      ['gp/product path', 'https://www.amazon.com/gp/product/B01DFKC2SO?psc=1', 'B01DFKC2SO', 'amazon.com'],
+      ['gp/product/glance path', 'https://www.amazon.com/gp/product/glance/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['mobile gp/aw/d path', 'https://www.amazon.com/gp/aw/d/B01DFKC2SO/ref=ox_sc_act_image_1', 'B01DFKC2SO', 'amazon.com'],
+      ['offer listing', 'https://www.amazon.com/gp/offer-listing/B01DFKC2SO/ref=dp_olp_NEW', 'B01DFKC2SO', 'amazon.com'],
+      ['product reviews', 'https://www.amazon.com/Echo-Dot/product-reviews/B01DFKC2SO/ref=cm_cr_dp', 'B01DFKC2SO', 'amazon.com'],
+      ['legacy obidos path', 'http://www.amazon.com/exec/obidos/ASIN/0316769487', '0316769487', 'amazon.com'],
+      ['lowercase ASIN', 'https://www.amazon.com/dp/b01dfkc2so', 'B01DFKC2SO', 'amazon.com'],
+      ['fragment', 'https://www.amazon.com/dp/B01DFKC2SO#customerReviews', 'B01DFKC2SO', 'amazon.com'],
+      ['mobile host', 'https://m.amazon.com/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['smile host', 'https://smile.amazon.com/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['bare host without scheme', 'amazon.com/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['uppercase host', 'https://WWW.AMAZON.COM/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['amzn.com short link', 'https://amzn.com/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com'],
+      ['amazon.co.uk', 'https://www.amazon.co.uk/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.co.uk'],
+      ['amazon.de', 'https://www.amazon.de/-/en/Echo-Dot/dp/B01DFKC2SO/', 'B01DFKC2SO', 'amazon.de'],
+      ['amazon.ca', 'https://www.amazon.ca/gp/product/B01DFKC2SO', 'B01DFKC2SO', 'amazon.ca'],
+      ['amazon.com.mx', 'https://www.amazon.com.mx/dp/B01DFKC2SO', 'B01DFKC2SO', 'amazon.com.mx'],
+      ['amazon.co.jp', 'https://www.amazon.co.jp/gp/aw/d/B01DFKC2SO', 'B01DFKC2SO', 'amazon.co.jp']
+    ];
+
+    it.each(productUrls)('should parse a %s', (_description, url, asin, domain) => {
+      expect(parseAmazonUrl(url)).toEqual({ asin, marketplace: findAmazonMarketplace(domain) });
+    });
+
+    const rejectedUrls: Array<[string, string]> = [
+      ['non-Amazon host', 'https://www.example.com/dp/B01DFKC2SO'],
+      ['lookalike host', 'https://www.notamazon.com/dp/B01DFKC2SO'],
+      ['Amazon domain inside another host', 'https://amazon.com.example.net/dp/B01DFKC2SO'],
+      ['Amazon host in the path', 'https://example.com/www.amazon.com/dp/B01DFKC2SO'],
+      ['page without an ASIN', 'https://www.amazon.com/product-without-asin'],
+      ['search page', 'https://www.amazon.com/s?k=B01DFKC2SO'],
+      ['ASIN of the wrong length', 'https://www.amazon.com/dp/B01DFKC2S'],
+      ['non-web scheme', 'ftp://www.amazon.com/dp/B01DFKC2SO'],
+      ['unresolved short link', 'https://a.co/d/abc1234'],
+      ['text', 'not a url']
+    ];
+
+    it.each(rejectedUrls)('should reject a %s', (_description, url) => {
+      expect(parseAmazonUrl(url)).toBeNull();
+    });
+  });
+
+  describe('product locators', () => {
+    it('should use the bare ASIN for amazon.com products', () => {
+      expect(AmazonSource.createProductLocator('https://www.amazon.com/gp/aw/d/b01dfkc2so', true)).toBe('amazon:B01DFKC2SO');
+      expect(AmazonSource.createProductLocator('b01dfkc2so', false)).toBe('amazon:B01DFKC2SO');
+    });
+
+    it('should refuse marketplaces Crossmint cannot buy from', () => {
+      expect(AmazonSource.validateIdentifier('https://www.amazon.co.uk/dp/B01DFKC2SO', true)).toBe(true);
+      expect(() => AmazonSource.createProductLocator('https://www.amazon.co.uk/dp/B01DFKC2SO', true)).toThrow(
+        new UnsupportedMarketplaceError('amazon.co.uk', ['amazon.com'])
+      );
+    });
+
+    it('should link to the product page on other supported marketplaces', () => {
+      const marketplace = { ...AMAZON_MARKETPLACES.find(candidate => candidate.code === 'DE')!, supported: true };
+      expect(createAmazonProductLocator({ asin: 'B01DFKC2SO', marketplace })).toBe('amazon:https://www.amazon.de/dp/B01DFKC2SO');
+    });
+  });
+});
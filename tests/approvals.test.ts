@@ -0,0 +1,99 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { approveOrder, getApprovalRequest, listApprovalRequests, rejectOrder, requestApproval } from '../src/approvals';
+import { ApprovalRequiredError, InsufficientFundsError } from '../src/errors';
+import * as index from '../src/index';
+import { payForOrder } from '../src/index';
+
+describe('Approvals', () => {
+  let dataDir: string;
+
+  const orderOptions = {
+    source: 'amazon',
+    productIdentifier: 'B01DFKC2SO',
+    isUrl: false,
+    apiKey: 'sk_staging_test',
+    email: 'buyer@example.com',
+    shippingAddress: {
+      name: 'Jane Doe',
+      line1: '1 Main St',
+      city: 'New York',
+      state: 'NY',
+      postalCode: '10001',
+      country: 'US'
+    }
+  };
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'approvals-'));
+    process.env.CRYPTO_BUYER_HOME = dataDir;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.CRYPTO_BUYER_HOME;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should park a quoted order as pending approval', async () => {
+    const request = await requestApproval(orderOptions);
+
+    expect(request.status).toBe('pending');
+    expect(request.products).toEqual([{ source: 'amazon', productId: 'B01DFKC2SO' }]);
+    expect(getApprovalRequest(request.orderId)).toEqual(request);
+    expect(listApprovalRequests('pending')).toEqual([request]);
+  });
+
+  it('should record who rejected an order and when', async () => {
+    const request = await requestApproval(orderOptions);
+    const rejected = rejectOrder(request.orderId, 'alice', 'Not needed');
+
+    expect(rejected).toMatchObject({ status: 'rejected', decidedBy: 'alice', reason: 'Not needed' });
+    expect(rejected.decidedAt).toBeDefined();
+    expect(getApprovalRequest(request.orderId)?.status).toBe('rejected');
+  });
+
+  it('should not allow deciding an order twice', async () => {
+    const request = await requestApproval(orderOptions);
+    rejectOrder(request.orderId, 'alice');
+
+    expect(() => rejectOrder(request.orderId, 'bob')).toThrow(`Order ${request.orderId} is already rejected`);
+  });
+
+  it('should not pay a pending order outside the approval workflow', async () => {
+    const request = await requestApproval(orderOptions);
+
+    await expect(payForOrder(request.orderId, 'sk_staging_test', ethers.Wallet.createRandom())).rejects.toThrow(
+      new ApprovalRequiredError(request.orderId, 'pending')
+    );
+  });
+
+  it('should never pay a rejected order', async () => {
+    const request = await requestApproval(orderOptions);
+    rejectOrder(request.orderId, 'alice');
+
+    await expect(
+      payForOrder(request.orderId, 'sk_staging_test', ethers.Wallet.createRandom(), {}, { approved: true })
+    ).rejects.toThrow(`Order ${request.orderId} was rejected and cannot be paid`);
+  });
+
+  it('should keep an approved order payable when its payment fails', async () => {
+    const request = await requestApproval(orderOptions);
+    const signer = ethers.Wallet.createRandom();
+    const pay = jest.spyOn(index, 'payForOrder')
+      .mockRejectedValueOnce(new InsufficientFundsError('Insufficient USDC'))
+      .mockResolvedValueOnce({ chain: 'base-sepolia', transactionHash: '0xabc', blockNumber: 42 });
+
+    await expect(approveOrder(request.orderId, 'sk_staging_test', signer, 'alice')).rejects.toThrow('Insufficient USDC');
+    expect(getApprovalRequest(request.orderId)).toMatchObject({ status: 'payment-failed', decidedBy: 'alice', paymentError: 'Insufficient USDC' });
+
+    await approveOrder(request.orderId, 'sk_staging_test', signer, 'bob');
+    const approved = getApprovalRequest(request.orderId);
+    expect(approved).toMatchObject({ status: 'approved', decidedBy: 'bob', transactionHash: '0xabc' });
+    expect(approved?.paymentError).toBeUndefined();
+    expect(pay).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,67 @@
+import { ethers } from 'ethers';
+import {
+  CHAINS,
+  DEFAULT_MAINNET_CHAIN,
+  DEFAULT_TESTNET_CHAIN,
+  findChainByPaymentMethod,
+  getChain,
+  getEvmChain,
+  getExplorerTransactionUrl,
+  listChains
+} from '../src/chains';
+import { UnsupportedChainError } from '../src/errors';
+
+describe('Chain Registry', () => {
+  it('should describe every chain completely and consistently', () => {
+    const chainIds = new Set<number | string>();
+
+    for (const [chain, config] of Object.entries(CHAINS)) {
+      const chainId = config.family === 'evm' ? config.chainId : config.genesisHash;
+      expect(chainIds.has(chainId)).toBe(false);
+      chainIds.add(chainId);
+
+      if (config.family === 'evm') {
+        // Checksummed addresses catch typos in the USDC contract
+        expect(ethers.utils.getAddress(config.usdc.address)).toBe(config.usdc.address);
+      } else {
+        // Solana mints and genesis hashes are base58 encoded 32-byte values
+        expect(ethers.utils.base58.decode(config.usdc.address)).toHaveLength(32);
+        expect(ethers.utils.base58.decode(config.genesisHash)).toHaveLength(32);
+      }
+      expect(config.usdc.decimals).toBe(6);
+      expect(config.rpcUrls.length).toBeGreaterThan(0);
+      expect(config.explorerTxUrl).toContain('{hash}');
+      expect(findChainByPaymentMethod(config.paymentMethod)).toBe(chain);
+    }
+  });
+
+  it('should include mainnets and testnets of every supported network', () => {
+    expect(listChains({ testnet: false })).toEqual(['ethereum', 'base', 'polygon', 'arbitrum', 'optimism', 'solana']);
+    expect(listChains({ testnet: true })).toEqual([
+      'ethereum-sepolia',
+      'base-sepolia',
+      'polygon-amoy',
+      'arbitrum-sepolia',
+      'optimism-sepolia',
+      'solana-devnet'
+    ]);
+    expect(listChains({ family: 'solana' })).toEqual(['solana', 'solana-devnet']);
+    expect(CHAINS[DEFAULT_MAINNET_CHAIN].testnet).toBe(false);
+    expect(CHAINS[DEFAULT_TESTNET_CHAIN].testnet).toBe(true);
+  });
+
+  it('should reject chains that are not in the registry', () => {
+    expect(getEvmChain('arbitrum').chainId).toBe(42161);
+    expect(getChain('solana').family).toBe('solana');
+    expect(() => getChain('dogechain')).toThrow(UnsupportedChainError);
+    expect(() => getEvmChain('solana')).toThrow(UnsupportedChainError);
+    expect(findChainByPaymentMethod('dogechain')).toBeUndefined();
+  });
+
+  it('should build block explorer links for transactions', () => {
+    expect(getExplorerTransactionUrl('base-sepolia', '0xabc')).toBe('https://sepolia.basescan.org/tx/0xabc');
+    expect(getExplorerTransactionUrl('optimism', '0xabc')).toBe('https://optimistic.etherscan.io/tx/0xabc');
+    expect(getExplorerTransactionUrl('solana-devnet', '5abc')).toBe('https://explorer.solana.com/tx/5abc?cluster=devnet');
+    expect(getExplorerTransactionUrl('dogechain', '0xabc')).toBeUndefined();
+  });
+});
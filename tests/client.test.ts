@@ -0,0 +1,106 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CrossmintClient, getDefaultApiBaseUrl, parseNumberEnv, parseRetryAfter } from '../src/client';
+
+describe('Crossmint Client', () => {
+  describe('getDefaultApiBaseUrl', () => {
+    it('should use production for production keys and staging otherwise', () => {
+      expect(getDefaultApiBaseUrl('sk_production_abc')).toBe('https://www.crossmint.com/api/2022-06-09');
+      expect(getDefaultApiBaseUrl('sk_staging_abc')).toBe('https://staging.crossmint.com/api/2022-06-09');
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = new Date('2024-05-15T12:00:00Z');
+      expect(parseRetryAfter('2', now)).toBe(2000);
+      expect(parseRetryAfter('Wed, 15 May 2024 12:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter(undefined, now)).toBeUndefined();
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+
+  describe('parseNumberEnv', () => {
+    afterEach(() => {
+      delete process.env.CROSSMINT_API_TIMEOUT_MS;
+    });
+
+    it('should read numbers and ignore unset variables', () => {
+      expect(parseNumberEnv('CROSSMINT_API_TIMEOUT_MS')).toBeUndefined();
+      process.env.CROSSMINT_API_TIMEOUT_MS = '';
+      expect(parseNumberEnv('CROSSMINT_API_TIMEOUT_MS')).toBeUndefined();
+      process.env.CROSSMINT_API_TIMEOUT_MS = '15000';
+      expect(parseNumberEnv('CROSSMINT_API_TIMEOUT_MS')).toBe(15000);
+    });
+
+    it('should reject values that are not finite, non-negative numbers', () => {
+      for (const value of ['15s', 'Infinity', '-1']) {
+        process.env.CROSSMINT_API_TIMEOUT_MS = value;
+        expect(() => parseNumberEnv('CROSSMINT_API_TIMEOUT_MS')).toThrow(
+          `Invalid CROSSMINT_API_TIMEOUT_MS: ${value} (expected a non-negative number)`
+        );
+      }
+    });
+  });
+
+  describe('request', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let responses: Array<{ status: number; headers?: Record<string, string>; body: unknown }>;
+    let requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders }>;
+
+    beforeEach(async () => {
+      responses = [];
+      requests = [];
+      server = http.createServer((req, res) => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers });
+        const response = responses.shift() || { status: 500, body: {} };
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    function createClient(): CrossmintClient {
+      return new CrossmintClient({ apiKey: 'sk_staging_test', baseUrl, maxRetries: 2, retryBaseDelayMs: 1 });
+    }
+
+    it('should send the API key to the configured base URL', async () => {
+      responses.push({ status: 200, body: { orderId: 'order-1' } });
+
+      await expect(createClient().getOrder('order-1')).resolves.toEqual({ orderId: 'order-1' });
+      expect(requests[0].url).toBe('/api/orders/order-1');
+      expect(requests[0].headers['x-api-key']).toBe('sk_staging_test');
+    });
+
+    it('should retry order creation on 429 and 5xx with the same idempotency key', async () => {
+      responses.push(
+        { status: 429, headers: { 'Retry-After': '0' }, body: {} },
+        { status: 503, body: {} },
+        { status: 200, body: { order: { orderId: 'order-1' } } }
+      );
+
+      await expect(createClient().createOrder({ lineItems: [] })).resolves.toEqual({ order: { orderId: 'order-1' } });
+      expect(requests).toHaveLength(3);
+      expect(requests[0].headers['x-idempotency-key']).toBeDefined();
+      expect(new Set(requests.map(request => request.headers['x-idempotency-key'])).size).toBe(1);
+    });
+
+    it('should not retry client errors', async () => {
+      responses.push({ status: 400, body: { message: 'bad request' } });
+
+      await expect(createClient().getOrder('order-1')).rejects.toMatchObject({ response: { status: 400 } });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should give up after the maximum number of retries', async () => {
+      await expect(createClient().getOrder('order-1')).rejects.toMatchObject({ response: { status: 500 } });
+      expect(requests).toHaveLength(3);
+    });
+  });
+});
@@ -1,4 +1,21 @@
-import { extractAsinFromUrl, createProductLocator, AmazonSource, sourceRegistry } from '../src/index';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  buyProductWithCrypto,
+  extractAsinFromUrl,
+  createProductLocator,
+  AmazonSource,
+  ShopifySource,
+  sourceRegistry,
+  SourceRegistry,
+  getOrderLineItems,
+  summarizeOrderQuote,
+  isQuoteExpired,
+  assertQuotePayable
+} from '../src/index';
+import { AddressRequiredError, InsufficientFundsError, ProductUnavailableError, QuoteExpiredError } from '../src/errors';
 
 describe('Crypto Physical Buyer', () => {
   describe('Amazon Source', () => {
@@ -54,14 +71,249 @@ describe('Crypto Physical Buyer', () => {
     });
   });
 
+  describe('Shopify Source', () => {
+    describe('extractProductId', () => {
+      it('should extract the store, handle and variant from a myshopify.com URL', () => {
+        const url = 'https://acme-supply.myshopify.com/products/classic-tee?variant=40123456789012';
+        expect(ShopifySource.extractProductId(url)).toBe('acme-supply.myshopify.com:classic-tee:40123456789012');
+      });
+
+      it('should extract the product from custom domains, collections and locales', () => {
+        const url = 'https://Shop.Example.com/en-ca/collections/tees/products/Classic-Tee/?utm_source=x&variant=40123456789012';
+        expect(ShopifySource.extractProductId(url)).toBe('shop.example.com:classic-tee:40123456789012');
+      });
+
+      it('should return null without a variant or product path', () => {
+        expect(ShopifySource.extractProductId('https://shop.example.com/products/classic-tee')).toBeNull();
+        expect(ShopifySource.extractProductId('https://shop.example.com/products/classic-tee?variant=abc')).toBeNull();
+        expect(ShopifySource.extractProductId('https://shop.example.com/collections/tees?variant=40123456789012')).toBeNull();
+        expect(ShopifySource.extractProductId('ftp://shop.example.com/products/classic-tee?variant=1')).toBeNull();
+        expect(ShopifySource.extractProductId('not a url')).toBeNull();
+      });
+    });
+
+    describe('createProductLocator', () => {
+      it('should create product locator for URL', () => {
+        const url = 'https://shop.example.com/collections/tees/products/classic-tee?variant=40123456789012';
+        expect(ShopifySource.createProductLocator(url, true)).toBe(
+          'shopify:https://shop.example.com/products/classic-tee:40123456789012'
+        );
+      });
+
+      it('should create product locator for product ID', () => {
+        expect(ShopifySource.createProductLocator('shop.example.com:classic-tee:40123456789012', false)).toBe(
+          'shopify:https://shop.example.com/products/classic-tee:40123456789012'
+        );
+      });
+
+      it('should refuse invalid identifiers', () => {
+        expect(() => ShopifySource.createProductLocator('classic-tee', false)).toThrow('Invalid Shopify product: classic-tee');
+      });
+    });
+
+    describe('validateIdentifier', () => {
+      it('should validate a Shopify URL with a variant', () => {
+        expect(ShopifySource.validateIdentifier('https://shop.example.com/products/classic-tee?variant=1', true)).toBe(true);
+        expect(ShopifySource.validateIdentifier('https://shop.example.com/products/classic-tee', true)).toBe(false);
+      });
+
+      it('should validate product IDs', () => {
+        expect(ShopifySource.validateIdentifier('shop.example.com:classic-tee:40123456789012', false)).toBe(true);
+        expect(ShopifySource.validateIdentifier('shop.example.com:classic-tee', false)).toBe(false);
+        expect(ShopifySource.validateIdentifier('localhost:classic-tee:1', false)).toBe(false);
+        expect(ShopifySource.validateIdentifier('shop.example.com:classic tee:1', false)).toBe(false);
+        expect(ShopifySource.validateIdentifier('shop.example.com:classic-tee:1:2', false)).toBe(false);
+      });
+    });
+  });
+
   describe('Source Registry', () => {
     it('should have Amazon source registered', () => {
       expect(sourceRegistry.getSource('amazon')).toBe(AmazonSource);
     });
 
+    it('should have Shopify source registered', () => {
+      expect(sourceRegistry.getSource('shopify')).toBe(ShopifySource);
+    });
+
     it('should return undefined for unknown source', () => {
       expect(sourceRegistry.getSource('unknown')).toBeUndefined();
     });
+
+    it('should resolve URLs to the source that recognizes them', () => {
+      expect(sourceRegistry.resolveUrl('https://www.amazon.com/gp/product/B01DFKC2SO')).toBe(AmazonSource);
+      expect(sourceRegistry.resolveUrl('https://shop.example.com/products/classic-tee?variant=1')).toBe(ShopifySource);
+      expect(() => sourceRegistry.resolveUrl('https://www.example.com/item/1')).toThrow(
+        'No product source recognizes https://www.example.com/item/1. Known sources are: amazon, shopify'
+      );
+    });
+
+    it('should report every candidate of an ambiguous URL', () => {
+      const registry = new SourceRegistry();
+      registry.registerSource(AmazonSource);
+      registry.registerSource({ ...AmazonSource, name: 'amazon-resale' });
+
+      expect(() => registry.resolveUrl('https://www.amazon.com/dp/B01DFKC2SO')).toThrow(
+        'Several product sources recognize https://www.amazon.com/dp/B01DFKC2SO: amazon, amazon-resale. Choose one with --source'
+      );
+    });
+  });
+
+  describe('getOrderLineItems', () => {
+    it('should wrap a single product order in one line item', () => {
+      expect(getOrderLineItems({
+        source: 'amazon',
+        productIdentifier: 'B01DFKC2SO',
+        isUrl: false,
+        apiKey: 'key',
+        email: 'buyer@example.com'
+      })).toEqual([{ source: 'amazon', productIdentifier: 'B01DFKC2SO', isUrl: false, quantity: undefined }]);
+    });
+
+    it('should return every line item of a multi-item order', () => {
+      const lineItems = [
+        { source: 'amazon', productIdentifier: 'B01DFKC2SO', isUrl: false, quantity: 2 },
+        { source: 'amazon', productIdentifier: 'https://www.amazon.com/dp/B07FZ8S74R', isUrl: true }
+      ];
+      expect(getOrderLineItems({ lineItems, apiKey: 'key', email: 'buyer@example.com' })).toEqual(lineItems);
+    });
+
+    it('should detect the source of URLs without one', () => {
+      expect(getOrderLineItems({
+        lineItems: [
+          { productIdentifier: 'https://www.amazon.com/dp/B01DFKC2SO', isUrl: true },
+          { productIdentifier: 'https://shop.example.com/products/classic-tee?variant=1', isUrl: true, quantity: 2 }
+        ],
+        apiKey: 'key',
+        email: 'buyer@example.com'
+      })).toEqual([
+        { source: 'amazon', productIdentifier: 'https://www.amazon.com/dp/B01DFKC2SO', isUrl: true },
+        { source: 'shopify', productIdentifier: 'https://shop.example.com/products/classic-tee?variant=1', isUrl: true, quantity: 2 }
+      ]);
+
+      expect(() => getOrderLineItems({ productIdentifier: 'B01DFKC2SO', apiKey: 'key', email: 'buyer@example.com' })).toThrow(
+        'Product source is required for product ID B01DFKC2SO'
+      );
+    });
+
+    it('should reject an order without products', () => {
+      expect(() => getOrderLineItems({ apiKey: 'key', email: 'buyer@example.com' })).toThrow(
+        'Order must contain at least one line item'
+      );
+    });
+  });
+
+  describe('summarizeOrderQuote', () => {
+    it('should collect line item metadata, charges and quote details', () => {
+      const summary = summarizeOrderQuote({
+        order: {
+          orderId: 'order-1',
+          phase: 'payment',
+          lineItems: [
+            {
+              metadata: { name: 'Echo Dot', description: 'Smart speaker', imageUrl: 'https://example.com/echo.png' },
+              quote: {
+                status: 'valid',
+                charges: { unit: { amount: '4.50', currency: 'usdc' } },
+                totalPrice: { amount: '9.00', currency: 'usdc' }
+              },
+              callData: { quantity: 2 }
+            }
+          ],
+          quote: {
+            status: 'valid',
+            quotedAt: '2024-05-15T12:00:00Z',
+            expiresAt: '2024-05-15T12:15:00Z',
+            totalPrice: { amount: '9.79', currency: 'usdc' }
+          },
+          payment: { status: 'awaiting-payment', method: 'base-sepolia', currency: 'usdc' }
+        }
+      });
+
+      expect(summary).toEqual({
+        orderId: 'order-1',
+        status: 'valid',
+        chain: 'base-sepolia',
+        currency: 'usdc',
+        totalPrice: { amount: '9.79', currency: 'usdc' },
+        quotedAt: '2024-05-15T12:00:00Z',
+        expiresAt: '2024-05-15T12:15:00Z',
+        lineItems: [
+          {
+            name: 'Echo Dot',
+            description: 'Smart speaker',
+            imageUrl: 'https://example.com/echo.png',
+            quantity: 2,
+            unitPrice: { amount: '4.50', currency: 'usdc' },
+            totalPrice: { amount: '9.00', currency: 'usdc' }
+          }
+        ]
+      });
+    });
+  });
+
+  describe('isQuoteExpired', () => {
+    const now = new Date('2024-05-15T12:10:00Z');
+
+    it('should treat quotes without an expiry as valid', () => {
+      expect(isQuoteExpired({}, now)).toBe(false);
+    });
+
+    it('should compare the expiry against the current time', () => {
+      expect(isQuoteExpired({ expiresAt: '2024-05-15T12:15:00Z' }, now)).toBe(false);
+      expect(isQuoteExpired({ expiresAt: '2024-05-15T12:05:00Z' }, now)).toBe(true);
+    });
+  });
+
+  describe('assertQuotePayable', () => {
+    const quote = { orderId: 'order-1', status: 'valid', chain: 'base', currency: 'usdc', lineItems: [] };
+
+    it('should accept a valid quote', () => {
+      expect(() => assertQuotePayable(quote)).not.toThrow();
+    });
+
+    it('should throw a typed error for each unpayable quote', () => {
+      expect(() => assertQuotePayable({ ...quote, status: 'requires-physical-address' })).toThrow(AddressRequiredError);
+      expect(() => assertQuotePayable({ ...quote, status: 'all-line-items-unquotable' })).toThrow(ProductUnavailableError);
+      expect(() => assertQuotePayable({ ...quote, status: 'expired' })).toThrow(QuoteExpiredError);
+      expect(() => assertQuotePayable({ ...quote, expiresAt: '2000-01-01T00:00:00Z' })).toThrow(QuoteExpiredError);
+    });
+  });
+
+  describe('buyProductWithCrypto', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'buy-'));
+      process.env.CRYPTO_BUYER_HOME = dataDir;
+    });
+
+    afterEach(() => {
+      delete process.env.CRYPTO_BUYER_HOME;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should refuse to create an order when the payer cannot pay', async () => {
+      // Reports a zero USDC and gas balance for every address
+      const provider = {
+        _isProvider: true,
+        resolveName: async (name: string) => name,
+        call: async () => ethers.utils.hexZeroPad('0x00', 32),
+        getBalance: async () => ethers.BigNumber.from(0)
+      } as unknown as ethers.providers.Provider;
+
+      await expect(
+        buyProductWithCrypto({
+          productIdentifier: 'https://www.amazon.com/dp/B01DFKC2SO',
+          isUrl: true,
+          apiKey: 'sk_staging_test',
+          email: 'jane@example.com',
+          chain: 'base-sepolia',
+          payerAddress: '0x000000000000000000000000000000000000dEaD',
+          provider
+        })
+      ).rejects.toThrow(InsufficientFundsError);
+    });
   });
 
   // Keep legacy function tests for backward compatibility
@@ -74,9 +326,9 @@ describe('Crypto Physical Buyer', () => {
     });
 
     describe('createProductLocator', () => {
-      it('should create product locator for URL', () => {
+      it('should create the same product locator as the Amazon source', () => {
         const url = 'https://www.amazon.com/dp/B01DFKC2SO';
-        expect(createProductLocator(url, true)).toBe('amazon:https://www.amazon.com/dp/B01DFKC2SO');
+        expect(createProductLocator(url, true)).toBe('amazon:B01DFKC2SO');
       });
     });
   });
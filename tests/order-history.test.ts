@@ -0,0 +1,76 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getOrderRecord,
+  listOrderRecords,
+  recordOrderCreated,
+  recordOrderPayment,
+  recordOrderStatus
+} from '../src/order-history';
+
+describe('Order History', () => {
+  let dataDir: string;
+
+  function createOrder(orderId: string, source: string) {
+    recordOrderCreated({
+      orderId,
+      lineItems: [{ source, productIdentifier: 'B01DFKC2SO', isUrl: false, quantity: 2 }],
+      chain: 'base-sepolia',
+      email: 'buyer@example.com',
+      quoteStatus: 'valid'
+    });
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'order-history-'));
+    process.env.CRYPTO_BUYER_HOME = dataDir;
+  });
+
+  afterEach(() => {
+    delete process.env.CRYPTO_BUYER_HOME;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should record status changes only when something changed', () => {
+    createOrder('order-1', 'amazon');
+    recordOrderStatus('order-1', { phase: 'payment', paymentStatus: 'awaiting-payment' });
+    recordOrderStatus('order-1', { phase: 'payment', paymentStatus: 'awaiting-payment' });
+    recordOrderStatus('order-1', { phase: 'delivery', paymentStatus: 'completed' });
+
+    const record = getOrderRecord('order-1');
+    expect(record?.phase).toBe('delivery');
+    expect(record?.events.map(event => event.type)).toEqual(['created', 'status-changed', 'status-changed']);
+  });
+
+  it('should record the payment receipt', () => {
+    createOrder('order-1', 'amazon');
+    recordOrderPayment('order-1', {
+      transactionHash: '0xabc',
+      blockNumber: 42,
+      payerAddress: '0x1111111111111111111111111111111111111111',
+      totalPrice: { amount: '9.79', currency: 'usdc' }
+    });
+
+    expect(getOrderRecord('order-1')).toMatchObject({
+      transactionHash: '0xabc',
+      blockNumber: 42,
+      totalPrice: { amount: '9.79', currency: 'usdc' }
+    });
+  });
+
+  it('should ignore updates for orders it did not create', () => {
+    recordOrderStatus('unknown-order', { phase: 'payment' });
+    expect(getOrderRecord('unknown-order')).toBeUndefined();
+  });
+
+  it('should filter orders by status and source', () => {
+    createOrder('order-1', 'amazon');
+    createOrder('order-2', 'shopify');
+    recordOrderStatus('order-2', { phase: 'completed' });
+
+    expect(listOrderRecords({ status: 'completed' }).map(record => record.orderId)).toEqual(['order-2']);
+    expect(listOrderRecords({ source: 'amazon' }).map(record => record.orderId)).toEqual(['order-1']);
+    expect(listOrderRecords({ since: new Date(Date.now() + 60000) })).toEqual([]);
+  });
+});
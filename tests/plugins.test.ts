@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AmazonSource, SourceRegistry } from '../src/index';
+import { PluginError } from '../src/errors';
+import { getPluginSources, loadPlugin, loadPlugins } from '../src/plugins';
+
+describe('Product Source Plugins', () => {
+  let dataDir: string;
+  let registry: SourceRegistry;
+
+  function writePlugin(fileName: string, body: string): string {
+    const filePath = path.join(dataDir, fileName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, body);
+    return filePath;
+  }
+
+  // A product source that buys items from URLs such as https://www.<name>.com/item/42
+  function sourceCode(name: string): string {
+    return `{
+      name: '${name}',
+      extractProductId: url => (url.match(/\\/item\\/(\\d+)/) || [])[1] || null,
+      createProductLocator: (identifier, isUrl) => '${name}:' + identifier,
+      validateIdentifier: (identifier, isUrl) => isUrl ? identifier.includes('${name}.com/item/') : /^\\d+$/.test(identifier)
+    }`;
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+    registry = new SourceRegistry();
+    registry.registerSource(AmazonSource);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should register the sources a local plugin exports', () => {
+    writePlugin('etsy.js', `module.exports = ${sourceCode('etsy')};`);
+    writePlugin('shops.js', `exports.sources = [${sourceCode('ebay')}, ${sourceCode('walmart')}];`);
+
+    loadPlugin('./etsy.js', { baseDir: dataDir, configuredIn: '--plugin', registry });
+    const plugin = loadPlugin('./shops', { baseDir: dataDir, registry });
+
+    expect(plugin.sources.map(source => source.name)).toEqual(['ebay', 'walmart']);
+    expect(registry.getAllSources().map(source => source.name)).toEqual(['amazon', 'etsy', 'ebay', 'walmart']);
+    expect(registry.getSourceOrigin('amazon')).toBe('built-in');
+    expect(registry.getSourceOrigin('etsy')).toBe('plugin ./etsy.js (--plugin)');
+    expect(registry.resolveUrl('https://www.etsy.com/item/42').name).toBe('etsy');
+  });
+
+  it('should load the plugins listed in the config file, relative to it', () => {
+    writePlugin('plugins/etsy.js', `module.exports = { default: ${sourceCode('etsy')} };`);
+    const configPath = path.join(dataDir, 'plugins.json');
+    fs.writeFileSync(configPath, JSON.stringify({ plugins: ['./plugins/etsy.js'] }));
+
+    const [plugin] = loadPlugins([], configPath);
+
+    expect(plugin.modulePath).toBe(path.join(dataDir, 'plugins', 'etsy.js'));
+    expect(plugin.sources[0].name).toBe('etsy');
+  });
+
+  it('should reject modules that do not implement ProductSource', () => {
+    expect(() => getPluginSources({ EtsySource: {} }, 'etsy')).toThrow(
+      'Plugin etsy exports no product source. Export a source or a list of sources as the module, default or sources'
+    );
+    expect(() => getPluginSources({ name: 'Etsy Shop' }, 'etsy')).toThrow('exports a product source with invalid name "Etsy Shop"');
+    expect(() => getPluginSources({ name: 'etsy', extractProductId: () => null }, 'etsy')).toThrow(
+      'Product source etsy from plugin etsy is missing createProductLocator(), validateIdentifier()'
+    );
+    expect(() => getPluginSources({ sources: [] }, 'etsy')).toThrow('Plugin etsy exports no product sources');
+
+    writePlugin('broken.js', 'throw new Error("boom");');
+    expect(() => loadPlugin('./broken.js', { baseDir: dataDir, registry })).toThrow('Failed to load plugin ./broken.js: boom');
+    expect(() => loadPlugin('./missing.js', { baseDir: dataDir, registry })).toThrow(PluginError);
+    expect(() => loadPlugin('crypto-buyer-no-such-plugin', { baseDir: dataDir, registry })).toThrow(
+      'Cannot find plugin crypto-buyer-no-such-plugin, is the package installed?'
+    );
+  });
+
+  it('should refuse sources whose name is already registered', () => {
+    writePlugin('amazon.js', `module.exports = [${sourceCode('etsy')}, ${sourceCode('amazon')}];`);
+
+    expect(() => loadPlugin('./amazon.js', { baseDir: dataDir, registry })).toThrow(
+      'Product source amazon from plugin ./amazon.js conflicts with the registered amazon source (built-in)'
+    );
+    // A conflicting plugin registers none of its sources
+    expect(registry.getSource('etsy')).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  evaluateSpendPolicy,
+  evaluateProductPolicy,
+  enforceSpendPolicy,
+  recordSpend,
+  getApiKeyFingerprint,
+  SpendEntry,
+  SpendPolicy,
+  SpendPolicyError
+} from '../src/policy';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const API_KEY = 'sk_staging_test';
+const NOW = new Date('2024-05-15T12:00:00Z'); // A Wednesday
+
+function spend(amount: number, timestamp: string, overrides: Partial<SpendEntry> = {}): SpendEntry {
+  return {
+    orderId: `order-${timestamp}`,
+    apiKeyFingerprint: getApiKeyFingerprint(API_KEY),
+    walletAddress: WALLET,
+    amount,
+    currency: 'usdc',
+    timestamp,
+    ...overrides
+  };
+}
+
+describe('Spend Policy', () => {
+  describe('evaluateProductPolicy', () => {
+    it('should allow any product when no lists are configured', () => {
+      expect(evaluateProductPolicy({}, [{ source: 'amazon', productId: 'B01DFKC2SO' }])).toEqual([]);
+    });
+
+    it('should reject blocked sources and products', () => {
+      const policy: SpendPolicy = { blockedSources: ['shopify'], blockedProducts: ['amazon:B01DFKC2SO'] };
+      expect(evaluateProductPolicy(policy, [{ source: 'shopify', productId: '123' }])).toEqual([
+        'source shopify is blocked'
+      ]);
+      expect(evaluateProductPolicy(policy, [{ source: 'amazon', productId: 'B01DFKC2SO' }])).toEqual([
+        'product amazon:B01DFKC2SO is blocked'
+      ]);
+    });
+
+    it('should reject products missing from the allow lists', () => {
+      const policy: SpendPolicy = { allowedSources: ['amazon'], allowedProducts: ['amazon:B01DFKC2SO'] };
+      expect(evaluateProductPolicy(policy, [{ source: 'amazon', productId: 'b01dfkc2so' }])).toEqual([]);
+      expect(evaluateProductPolicy(policy, [{ source: 'amazon', productId: 'B000000000' }])).toEqual([
+        'product amazon:B000000000 is not in the allowed products'
+      ]);
+    });
+
+    it('should fail closed when allow lists are set but products are unknown', () => {
+      expect(evaluateProductPolicy({ allowedSources: ['amazon'] })).toHaveLength(1);
+    });
+  });
+
+  describe('evaluateSpendPolicy', () => {
+    const request = {
+      apiKey: API_KEY,
+      walletAddress: WALLET,
+      totalPrice: { amount: '30', currency: 'USDC' }
+    };
+
+    it('should reject orders above the per-order maximum', () => {
+      expect(evaluateSpendPolicy({ maxOrderAmount: 25 }, request, [], NOW)).toEqual([
+        'order total 30 usdc exceeds the per-order maximum of 25 usdc'
+      ]);
+    });
+
+    it('should count only spend inside the current period', () => {
+      const policy: SpendPolicy = { budgets: { apiKey: { daily: 50, weekly: 100, monthly: 1000 } } };
+      const entries = [
+        spend(15, '2024-05-15T01:00:00Z'),
+        spend(40, '2024-05-13T09:00:00Z'),
+        spend(500, '2024-04-30T09:00:00Z')
+      ];
+
+      expect(evaluateSpendPolicy(policy, request, entries, NOW)).toEqual([]);
+      expect(evaluateSpendPolicy(policy, request, [...entries, spend(20, '2024-05-14T09:00:00Z')], NOW)).toEqual([
+        'API key weekly budget of 100 usdc would be exceeded (spent 75, order 30)'
+      ]);
+    });
+
+    it('should track wallet budgets separately from API key budgets', () => {
+      const policy: SpendPolicy = { walletBudgets: { [WALLET.toUpperCase().replace('0X', '0x')]: { daily: 40 } } };
+      const entries = [spend(20, '2024-05-15T01:00:00Z', { apiKeyFingerprint: 'other' })];
+
+      expect(evaluateSpendPolicy(policy, request, entries, NOW)).toEqual([
+        `wallet ${WALLET} daily budget of 40 usdc would be exceeded (spent 20, order 30)`
+      ]);
+    });
+
+    it('should reject quotes without a total price when limits are set', () => {
+      expect(evaluateSpendPolicy({ maxOrderAmount: 25 }, { ...request, totalPrice: undefined }, [], NOW)).toEqual([
+        'quote has no total price, so spend limits cannot be checked'
+      ]);
+    });
+  });
+
+  describe('enforceSpendPolicy', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'spend-policy-'));
+      process.env.CRYPTO_BUYER_HOME = dataDir;
+    });
+
+    afterEach(() => {
+      delete process.env.CRYPTO_BUYER_HOME;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should allow everything when no policy file exists', () => {
+      expect(() => enforceSpendPolicy({ totalPrice: { amount: '1000', currency: 'usdc' } })).not.toThrow();
+    });
+
+    it('should enforce budgets using spend recorded in previous runs', () => {
+      fs.writeFileSync(path.join(dataDir, 'policy.json'), JSON.stringify({ budgets: { wallet: { daily: 50 } } }));
+      const request = { walletAddress: WALLET, totalPrice: { amount: '30', currency: 'usdc' } };
+
+      expect(() => enforceSpendPolicy(request)).not.toThrow();
+      recordSpend('order-1', request);
+      expect(() => enforceSpendPolicy(request)).toThrow(SpendPolicyError);
+    });
+  });
+});
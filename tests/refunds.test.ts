@@ -0,0 +1,234 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { getEvmChain } from '../src/chains';
+import { OrderCanceledError } from '../src/errors';
+import * as index from '../src/index';
+import { OrderStatusResponse, payForOrder } from '../src/index';
+import {
+  getOrderRecord,
+  listOrderRecords,
+  OrderRecord,
+  recordOrderAwaitingRefund,
+  recordOrderCreated,
+  recordOrderPayment,
+  recordOrderRefund
+} from '../src/order-history';
+import { cancelOrder, checkOrderRefund, findRefundTransfer, getApiRefund } from '../src/refunds';
+import { applyWebhookEvent } from '../src/webhooks';
+
+describe('Cancellation and Refunds', () => {
+  let dataDir: string;
+
+  const payer = '0x1111111111111111111111111111111111111111';
+  const depositAddress = '0x2222222222222222222222222222222222222222';
+  const transfer = new ethers.utils.Interface(['event Transfer(address indexed from, address indexed to, uint256 value)']);
+
+  function createOrder(orderId: string) {
+    recordOrderCreated({
+      orderId,
+      lineItems: [{ source: 'amazon', productIdentifier: 'B01DFKC2SO', isUrl: false, quantity: 1 }],
+      chain: 'base-sepolia',
+      email: 'buyer@example.com',
+      quoteStatus: 'valid'
+    });
+  }
+
+  function payOrder(orderId: string) {
+    recordOrderPayment(orderId, {
+      transactionHash: '0xpayment',
+      blockNumber: 100,
+      payerAddress: payer,
+      totalPrice: { amount: '9.79', currency: 'usdc' }
+    });
+  }
+
+  // USDC transfer log as returned by a provider
+  function transferLog(from: string, to: string, amount: string, transactionHash: string) {
+    const usdc = getEvmChain('base-sepolia').usdc;
+    const { data, topics } = transfer.encodeEventLog(transfer.getEvent('Transfer'), [from, to, ethers.utils.parseUnits(amount, usdc.decimals)]);
+    return { address: usdc.address, data, topics, transactionHash };
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'refunds-'));
+    process.env.CRYPTO_BUYER_HOME = dataDir;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.CRYPTO_BUYER_HOME;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should cancel an unpaid order so it is never paid', async () => {
+    createOrder('order-1');
+
+    const record = await cancelOrder('order-1', 'sk_test', { reason: 'ordered by mistake' });
+
+    expect(record.canceledAt).toBeDefined();
+    expect(record.cancelReason).toBe('ordered by mistake');
+    expect(record.events.map(event => event.type)).toContain('canceled');
+    expect(listOrderRecords({ status: 'canceled' }).map(order => order.orderId)).toEqual(['order-1']);
+    await expect(payForOrder('order-1', 'sk_test', ethers.Wallet.createRandom())).rejects.toThrow(new OrderCanceledError('order-1'));
+  });
+
+  it('should refuse to cancel paid or unknown orders', async () => {
+    createOrder('order-1');
+    payOrder('order-1');
+
+    await expect(cancelOrder('order-1', 'sk_test')).rejects.toThrow(
+      'Order order-1 has already been paid and cannot be canceled: Crossmint has no endpoint to cancel orders. ' +
+      'If its delivery fails, track the refund with: refunds check order-1'
+    );
+    await expect(cancelOrder('order-2', 'sk_test')).rejects.toThrow('Order order-2 is not in the local order history');
+    expect(getOrderRecord('order-1')?.canceledAt).toBeUndefined();
+  });
+
+  it('should refuse to cancel orders Crossmint has moved past payment', async () => {
+    createOrder('order-1');
+    jest.spyOn(index, 'getOrderStatus').mockResolvedValue({
+      order: { orderId: 'order-1', phase: 'delivery', payment: { status: 'completed', method: 'base-sepolia', currency: 'usdc' } }
+    });
+
+    await expect(cancelOrder('order-1', 'sk_test')).rejects.toThrow('Crossmint has no endpoint to cancel orders');
+    expect(getOrderRecord('order-1')?.canceledAt).toBeUndefined();
+  });
+
+  it('should start awaiting the refund when the delivery of a paid order fails', () => {
+    createOrder('order-1');
+    payOrder('order-1');
+    const webhook = (delivery: string, refunded?: object) => ({
+      type: 'orders.delivery.failed',
+      data: {
+        orderId: 'order-1',
+        phase: 'delivery',
+        payment: { status: 'completed', method: 'base-sepolia', currency: 'usdc', refunded },
+        lineItems: [{ delivery: { status: delivery } }]
+      }
+    });
+    const trackers = new Map();
+
+    applyWebhookEvent(webhook('failed'), trackers);
+    expect(getOrderRecord('order-1')?.awaitingRefundSince).toBeDefined();
+    expect(listOrderRecords({ status: 'awaiting-refund' }).map(order => order.orderId)).toEqual(['order-1']);
+
+    applyWebhookEvent(webhook('failed', { amount: '9.79', currency: 'usdc', txId: '0xrefund' }), trackers);
+    expect(getOrderRecord('order-1')?.refund).toMatchObject({ amount: '9.79', transactionHash: '0xrefund', detectedBy: 'api' });
+    expect(listOrderRecords({ status: 'awaiting-refund' })).toEqual([]);
+  });
+
+  it('should read refunds reported by the API', () => {
+    const payment = { status: 'completed', method: 'base-sepolia', currency: 'usdc' };
+    const statusResponse: OrderStatusResponse = {
+      order: {
+        orderId: 'order-1',
+        phase: 'completed',
+        payment: { ...payment, refunded: { amount: '9.79', currency: 'usdc', txId: '0xrefund' } }
+      }
+    };
+
+    expect(getApiRefund(statusResponse, 'base-sepolia')).toMatchObject({
+      amount: '9.79',
+      currency: 'usdc',
+      chain: 'base-sepolia',
+      transactionHash: '0xrefund',
+      detectedBy: 'api'
+    });
+    expect(getApiRefund({ order: { orderId: 'order-1', phase: 'delivery', payment } }, 'base-sepolia')).toBeUndefined();
+  });
+
+  it('should find USDC transferred back to the payer from the payment address', async () => {
+    createOrder('order-1');
+    payOrder('order-1');
+    recordOrderAwaitingRefund('order-1');
+    const getLogs = jest.fn().mockResolvedValue([transferLog(depositAddress, payer, '9.79', '0xrefund')]);
+    const provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValue({ logs: [transferLog(payer, depositAddress, '9.79', '0xpayment')] }),
+      getBlockNumber: jest.fn().mockResolvedValue(150),
+      getLogs
+    } as unknown as ethers.providers.Provider;
+
+    const refund = await checkOrderRefund('order-1', 'sk_test', provider);
+
+    expect(refund).toMatchObject({ amount: '9.79', currency: 'usdc', transactionHash: '0xrefund', detectedBy: 'transfer' });
+    expect(getLogs.mock.calls[0][0]).toMatchObject({
+      fromBlock: 100,
+      toBlock: 150,
+      topics: [transfer.getEventTopic('Transfer'), ethers.utils.hexZeroPad(depositAddress, 32), ethers.utils.hexZeroPad(payer, 32)]
+    });
+    expect(getOrderRecord('order-1')?.refund).toEqual(refund);
+    expect(listOrderRecords({ status: 'refunded' }).map(order => order.orderId)).toEqual(['order-1']);
+  });
+
+  it('should only take transfers of the paid amount that no other order has claimed as its refund', async () => {
+    createOrder('order-1');
+    payOrder('order-1');
+    createOrder('order-2');
+    recordOrderRefund('order-2', {
+      amount: '9.79',
+      currency: 'usdc',
+      chain: 'base-sepolia',
+      transactionHash: '0xclaimed',
+      detectedBy: 'transfer',
+      detectedAt: new Date().toISOString()
+    });
+    const provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValue({ logs: [transferLog(payer, depositAddress, '9.79', '0xpayment')] }),
+      getBlockNumber: jest.fn().mockResolvedValue(150),
+      getLogs: jest.fn().mockResolvedValue([
+        transferLog(depositAddress, payer, '2.00', '0xpayout'),
+        transferLog(depositAddress, payer, '9.79', '0xclaimed'),
+        transferLog(depositAddress, payer, '9.79', '0xrefund')
+      ])
+    } as unknown as ethers.providers.Provider;
+
+    const refund = await findRefundTransfer(getOrderRecord('order-1') as OrderRecord, provider);
+
+    expect(refund).toMatchObject({ amount: '9.79', transactionHash: '0xrefund' });
+  });
+
+  it('should not look for refund transfers of an order whose delivery has not failed', async () => {
+    createOrder('order-1');
+    payOrder('order-1');
+    jest.spyOn(index, 'getOrderStatus').mockResolvedValue({
+      order: {
+        orderId: 'order-1',
+        phase: 'completed',
+        payment: { status: 'completed', method: 'base-sepolia', currency: 'usdc' },
+        lineItems: [{ delivery: { status: 'completed' } }]
+      }
+    });
+    const getLogs = jest.fn();
+    const provider = { getLogs } as unknown as ethers.providers.Provider;
+
+    await expect(checkOrderRefund('order-1', 'sk_test', provider)).rejects.toThrow(
+      'Order order-1 has not failed delivery, so no refund is expected'
+    );
+    expect(getLogs).not.toHaveBeenCalled();
+    expect(getOrderRecord('order-1')?.refund).toBeUndefined();
+  });
+
+  it('should search for refunds in bounded block ranges and continue where the last check stopped', async () => {
+    createOrder('order-1');
+    payOrder('order-1');
+    const getBlockNumber = jest.fn().mockResolvedValueOnce(2600).mockResolvedValueOnce(3000);
+    const getLogs = jest.fn().mockResolvedValue([]);
+    const provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValue({ logs: [transferLog(payer, depositAddress, '9.79', '0xpayment')] }),
+      getBlockNumber,
+      getLogs
+    } as unknown as ethers.providers.Provider;
+    const blockRanges = () => getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock]);
+
+    await expect(findRefundTransfer(getOrderRecord('order-1') as OrderRecord, provider)).resolves.toBeUndefined();
+    expect(blockRanges()).toEqual([[100, 1099], [1100, 2099], [2100, 2600]]);
+    expect(getOrderRecord('order-1')?.refundScannedBlock).toBe(2600);
+
+    getLogs.mockClear();
+    await expect(findRefundTransfer(getOrderRecord('order-1') as OrderRecord, provider)).resolves.toBeUndefined();
+    expect(blockRanges()).toEqual([[2601, 3000]]);
+  });
+});
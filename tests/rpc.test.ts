@@ -0,0 +1,111 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { createChainProvider, getRpcUrls, getRpcUrlsEnvName } from '../src/rpc';
+import { CHAINS } from '../src/chains';
+import { RpcEndpointError, UnsupportedChainError } from '../src/errors';
+
+describe('RPC', () => {
+  describe('getRpcUrls', () => {
+    let dataDir: string;
+    let configPath: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rpc-'));
+      configPath = path.join(dataDir, 'rpc.json');
+    });
+
+    afterEach(() => {
+      delete process.env.RPC_URLS_BASE_SEPOLIA;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should prefer the environment, then the config file, then the public defaults', () => {
+      expect(getRpcUrls('base-sepolia', configPath)).toEqual(CHAINS['base-sepolia'].rpcUrls);
+
+      fs.writeFileSync(configPath, JSON.stringify({ 'base-sepolia': 'http://127.0.0.1:8545' }));
+      expect(getRpcUrls('base-sepolia', configPath)).toEqual(['http://127.0.0.1:8545']);
+
+      process.env.RPC_URLS_BASE_SEPOLIA = 'https://a.example, https://b.example';
+      expect(getRpcUrls('base-sepolia', configPath)).toEqual(['https://a.example', 'https://b.example']);
+    });
+
+    it('should reject unknown chains and invalid config entries', () => {
+      expect(() => getRpcUrls('dogechain', configPath)).toThrow(UnsupportedChainError);
+
+      fs.writeFileSync(configPath, JSON.stringify({ base: [] }));
+      expect(() => getRpcUrls('base', configPath)).toThrow('base must be a URL or a list of URLs');
+    });
+
+    it('should name the environment variable after the chain', () => {
+      expect(getRpcUrlsEnvName('polygon-amoy')).toBe('RPC_URLS_POLYGON_AMOY');
+    });
+  });
+
+  describe('createChainProvider', () => {
+    const servers: http.Server[] = [];
+    let errorSpy: jest.SpyInstance;
+
+    // Minimal JSON-RPC endpoint answering eth_chainId and eth_blockNumber
+    async function startNode(chainId: number, blockNumber: number): Promise<string> {
+      const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const request = JSON.parse(body);
+          const result = request.method === 'eth_chainId' ? ethers.utils.hexValue(chainId) : ethers.utils.hexValue(blockNumber);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      servers.push(server);
+      return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    async function unusedUrl(): Promise<string> {
+      const url = await startNode(84532, 0);
+      const server = servers.pop() as http.Server;
+      await new Promise(resolve => server.close(resolve));
+      return url;
+    }
+
+    beforeEach(() => {
+      errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      errorSpy.mockRestore();
+      await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+    });
+
+    it('should connect to a local dev chain with the expected chain ID', async () => {
+      const provider = await createChainProvider('base-sepolia', [await startNode(84532, 42)]);
+
+      await expect(provider.getBlockNumber()).resolves.toBe(42);
+    });
+
+    it('should skip unreachable endpoints and fall back to the next one', async () => {
+      const provider = await createChainProvider('base-sepolia', [await unusedUrl(), await startNode(84532, 7)]);
+
+      await expect(provider.getBlockNumber()).resolves.toBe(7);
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('Warning: skipping RPC endpoint'));
+    });
+
+    it('should refuse endpoints serving another chain', async () => {
+      const mainnet = await startNode(8453, 1);
+
+      await expect(createChainProvider('base-sepolia', [await startNode(84532, 1), mainnet])).rejects.toThrow(
+        `RPC endpoint ${mainnet} serves chain ID 8453, expected 84532 for base-sepolia`
+      );
+    });
+
+    it('should fail when no endpoint can be reached or the chain is unknown', async () => {
+      await expect(createChainProvider('base-sepolia', [await unusedUrl()])).rejects.toThrow(RpcEndpointError);
+      await expect(createChainProvider('dogechain', [])).rejects.toThrow(UnsupportedChainError);
+    });
+  });
+});
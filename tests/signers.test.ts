@@ -0,0 +1,170 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { createSigner, hasSignerOption, RemoteSigner, resolveSignerConfig } from '../src/signers';
+
+describe('Signers', () => {
+  // Well-known development mnemonic, never holds real funds
+  const mnemonic = 'test test test test test test test test test test test junk';
+  const privateKey = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+  const firstAddress = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+  const secondAddress = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'signers-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('resolveSignerConfig', () => {
+    it('should prefer command line options over the environment', () => {
+      const env = { PRIVATE_KEY: privateKey };
+
+      expect(resolveSignerConfig({}, env)).toEqual({ type: 'private-key', privateKey });
+      expect(resolveSignerConfig({ keystore: 'key.json', passphraseFile: 'pass.txt' }, env)).toEqual({
+        type: 'keystore',
+        path: 'key.json',
+        passphraseFile: 'pass.txt'
+      });
+      expect(resolveSignerConfig({}, { REMOTE_SIGNER_URL: 'http://127.0.0.1:8550', REMOTE_SIGNER_ADDRESS: firstAddress })).toEqual({
+        type: 'remote',
+        url: 'http://127.0.0.1:8550',
+        address: firstAddress
+      });
+      expect(resolveSignerConfig({}, {})).toBeUndefined();
+    });
+
+    it('should read mnemonics from files with the configured derivation path', () => {
+      const mnemonicFile = path.join(dataDir, 'mnemonic.txt');
+      fs.writeFileSync(mnemonicFile, `${mnemonic}\n`);
+
+      expect(resolveSignerConfig({ mnemonicFile }, { DERIVATION_PATH: "m/44'/60'/0'/0/1" })).toEqual({
+        type: 'mnemonic',
+        mnemonic,
+        derivationPath: "m/44'/60'/0'/0/1"
+      });
+      expect(resolveSignerConfig({}, { MNEMONIC_FILE: mnemonicFile })).toMatchObject({ type: 'mnemonic', mnemonic });
+    });
+
+    it('should refuse more than one signer', () => {
+      expect(() => resolveSignerConfig({ privateKey, remoteSigner: 'http://127.0.0.1:8550' }, {})).toThrow(
+        'Only one signer can be used, but the command line sets --private-key and --remote-signer'
+      );
+      expect(() => resolveSignerConfig({}, { PRIVATE_KEY: privateKey, MNEMONIC: mnemonic })).toThrow(
+        'the environment sets PRIVATE_KEY and MNEMONIC'
+      );
+    });
+
+    it('should tell signer choices apart from signer settings', () => {
+      expect(hasSignerOption({ keystore: 'key.json' })).toBe(true);
+      expect(hasSignerOption({ passphraseFile: 'pass.txt', derivationPath: "m/44'/60'/0'/0/1" })).toBe(false);
+    });
+  });
+
+  describe('createSigner', () => {
+    it('should derive mnemonic accounts', async () => {
+      await expect((await createSigner({ type: 'mnemonic', mnemonic })).getAddress()).resolves.toBe(firstAddress);
+      await expect(
+        (await createSigner({ type: 'mnemonic', mnemonic, derivationPath: "m/44'/60'/0'/0/1" })).getAddress()
+      ).resolves.toBe(secondAddress);
+    });
+
+    it('should unlock keystores with a passphrase file or prompt', async () => {
+      const keystorePath = path.join(dataDir, 'keystore.json');
+      const passphraseFile = path.join(dataDir, 'passphrase.txt');
+      // A cheap scrypt cost keeps the test fast
+      fs.writeFileSync(keystorePath, await new ethers.Wallet(privateKey).encrypt('correct horse', { scrypt: { N: 2 } }));
+      fs.writeFileSync(passphraseFile, 'correct horse\n');
+
+      const fromFile = await createSigner({ type: 'keystore', path: keystorePath, passphraseFile });
+      await expect(fromFile.getAddress()).resolves.toBe(firstAddress);
+
+      const prompt = jest.fn(async () => 'correct horse');
+      const fromPrompt = await createSigner({ type: 'keystore', path: keystorePath }, prompt);
+      await expect(fromPrompt.getAddress()).resolves.toBe(firstAddress);
+      expect(prompt).toHaveBeenCalledWith(keystorePath);
+
+      await expect(createSigner({ type: 'keystore', path: keystorePath }, async () => 'wrong')).rejects.toThrow(
+        `Failed to unlock keystore ${keystorePath}`
+      );
+      await expect(createSigner({ type: 'keystore', path: keystorePath })).rejects.toThrow('needs a passphrase');
+    });
+  });
+
+  describe('RemoteSigner', () => {
+    const wallet = new ethers.Wallet(privateKey);
+    let server: http.Server;
+    let url: string;
+    let tamper: boolean;
+
+    beforeEach(async () => {
+      tamper = false;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', async () => {
+          const request = JSON.parse(body);
+          let result: unknown;
+          if (request.method === 'eth_accounts') {
+            result = [wallet.address.toLowerCase()];
+          } else if (request.method === 'eth_signTransaction') {
+            const [tx] = request.params;
+            const raw = await wallet.signTransaction({
+              to: tamper ? '0x000000000000000000000000000000000000dEaD' : tx.to,
+              data: tx.data,
+              value: tx.value,
+              nonce: Number(tx.nonce),
+              gasLimit: tx.gas,
+              gasPrice: tx.gasPrice,
+              chainId: Number(tx.chainId)
+            });
+            // Answer like Clef does
+            result = { raw, tx: {} };
+          }
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const transaction = {
+      to: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      data: '0xa9059cbb',
+      value: 0,
+      nonce: 3,
+      gasLimit: 100000,
+      gasPrice: 1000000000,
+      chainId: 84532
+    };
+
+    it('should use the first remote account and return the signed transaction', async () => {
+      const signer = new RemoteSigner(url);
+      await expect(signer.getAddress()).resolves.toBe(firstAddress);
+
+      const signed = ethers.utils.parseTransaction(await signer.signTransaction(transaction));
+      expect(signed.from).toBe(firstAddress);
+      expect(signed.to).toBe(transaction.to);
+      expect(signed.nonce).toBe(3);
+    });
+
+    it('should refuse transactions that differ from the request', async () => {
+      tamper = true;
+
+      await expect(new RemoteSigner(url, firstAddress).signTransaction(transaction)).rejects.toThrow(
+        'Remote signer returned a transaction with a different to'
+      );
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { Order } from '../src/payment';
+import { CHAINS } from '../src/chains';
+import { createSolanaRpcClient, SolanaRpcClient } from '../src/rpc';
+import { RpcEndpointError, TransactionRevertedError } from '../src/errors';
+import { verifySolanaPaymentTransaction } from '../src/verification';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  COMPUTE_BUDGET_PROGRAM_ID,
+  decodeSolanaTransaction,
+  sendSolanaTransaction,
+  signSolanaTransaction,
+  SolanaKeypair,
+  SYSTEM_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  waitForSolanaConfirmation
+} from '../src/solana';
+
+describe('Solana', () => {
+  const mint = CHAINS['solana-devnet'].usdc.address;
+  const source = ethers.utils.base58.encode(Buffer.alloc(32, 1));
+  const destination = ethers.utils.base58.encode(Buffer.alloc(32, 2));
+  const blockhash = ethers.utils.base58.encode(Buffer.alloc(32, 3));
+
+  const order: Order = {
+    orderId: 'order-1',
+    phase: 'payment',
+    quote: { status: 'valid', totalPrice: { amount: '9.79', currency: 'usdc' } },
+    payment: { status: 'awaiting-payment', method: 'solana-devnet', currency: 'usdc' }
+  };
+
+  function generateSecretKey(): Buffer {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const seed = privateKey.export({ format: 'der', type: 'pkcs8' }).subarray(-32);
+    return Buffer.concat([seed, publicKey.export({ format: 'der', type: 'spki' }).subarray(-32)]);
+  }
+
+  const keypair = new SolanaKeypair(generateSecretKey());
+
+  interface TestInstruction {
+    program: string;
+    accounts: string[];
+    data: Buffer;
+  }
+
+  // Serialize a transaction the way the API prepares it, with empty signature slots
+  function buildTransaction(instructions: TestInstruction[], options: { signers?: string[]; versioned?: boolean } = {}): string {
+    const signers = options.signers || [keypair.publicKey];
+    const keys = [...signers];
+    for (const instruction of instructions) {
+      for (const key of [...instruction.accounts, instruction.program]) {
+        if (!keys.includes(key)) {
+          keys.push(key);
+        }
+      }
+    }
+
+    const message = Buffer.concat([
+      Buffer.from(options.versioned ? [0x80] : []),
+      Buffer.from([signers.length, 0, 0, keys.length]),
+      ...keys.map(key => Buffer.from(ethers.utils.base58.decode(key))),
+      Buffer.from(ethers.utils.base58.decode(blockhash)),
+      Buffer.from([instructions.length]),
+      ...instructions.map(instruction =>
+        Buffer.concat([
+          Buffer.from([keys.indexOf(instruction.program), instruction.accounts.length]),
+          Buffer.from(instruction.accounts.map(account => keys.indexOf(account))),
+          Buffer.from([instruction.data.length]),
+          instruction.data
+        ])
+      ),
+      // No address lookup tables
+      Buffer.from(options.versioned ? [0] : [])
+    ]);
+    return ethers.utils.base58.encode(Buffer.concat([Buffer.from([signers.length]), Buffer.alloc(64 * signers.length), message]));
+  }
+
+  function transferChecked(amount: string, overrides: { mint?: string; authority?: string } = {}): TestInstruction {
+    const data = Buffer.alloc(10);
+    data[0] = 12;
+    data.writeBigUInt64LE(BigInt(ethers.utils.parseUnits(amount, 6).toString()), 1);
+    data[9] = 6;
+    return {
+      program: TOKEN_PROGRAM_ID,
+      accounts: [source, overrides.mint || mint, destination, overrides.authority || keypair.publicKey],
+      data
+    };
+  }
+
+  describe('SolanaKeypair', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'solana-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should load solana-keygen files and base58 secret keys', () => {
+      const secretKey = generateSecretKey();
+      const jsonFile = path.join(dataDir, 'id.json');
+      const base58File = path.join(dataDir, 'id.txt');
+      fs.writeFileSync(jsonFile, JSON.stringify(Array.from(secretKey)));
+      fs.writeFileSync(base58File, `${ethers.utils.base58.encode(secretKey)}\n`);
+
+      const publicKey = ethers.utils.base58.encode(secretKey.subarray(32));
+      expect(SolanaKeypair.fromFile(jsonFile).publicKey).toBe(publicKey);
+      expect(SolanaKeypair.fromFile(base58File).publicKey).toBe(publicKey);
+    });
+
+    it('should refuse secret keys whose public half does not match', () => {
+      const secretKey = generateSecretKey();
+      secretKey[63] ^= 1;
+      const file = path.join(dataDir, 'id.json');
+      fs.writeFileSync(file, JSON.stringify(Array.from(secretKey)));
+
+      expect(() => SolanaKeypair.fromFile(file)).toThrow('Solana secret key does not match its public key');
+    });
+  });
+
+  describe('transactions', () => {
+    it('should decode and sign legacy and versioned transactions', () => {
+      for (const versioned of [false, true]) {
+        const transaction = decodeSolanaTransaction(buildTransaction([transferChecked('9.79')], { versioned }));
+        expect(transaction.version).toBe(versioned ? 0 : 'legacy');
+        expect(transaction.recentBlockhash).toBe(blockhash);
+        expect(transaction.instructions[0].programId).toBe(TOKEN_PROGRAM_ID);
+
+        const signed = decodeSolanaTransaction(signSolanaTransaction(transaction, keypair).toString('base64'));
+        expect(signed.message.equals(transaction.message)).toBe(true);
+        const publicKey = crypto.createPublicKey({
+          key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), Buffer.from(ethers.utils.base58.decode(keypair.publicKey))]),
+          format: 'der',
+          type: 'spki'
+        });
+        expect(crypto.verify(null, signed.message, publicKey, signed.signatures[0])).toBe(true);
+      }
+    });
+
+    it('should only sign transactions the keypair is a signer of', () => {
+      const other = new SolanaKeypair(generateSecretKey());
+      const transaction = decodeSolanaTransaction(buildTransaction([transferChecked('9.79')]));
+
+      expect(() => signSolanaTransaction(transaction, other)).toThrow('is not a signer of the Solana transaction');
+    });
+  });
+
+  describe('verifySolanaPaymentTransaction', () => {
+    function verify(instructions: TestInstruction[], options: { signers?: string[] } = {}): string[] {
+      return verifySolanaPaymentTransaction(order, decodeSolanaTransaction(buildTransaction(instructions, options)), keypair.publicKey);
+    }
+
+    it('should accept a USDC transfer of the quoted amount signed by the payer', () => {
+      const computeBudget = { program: COMPUTE_BUDGET_PROGRAM_ID, accounts: [], data: Buffer.from([2, 0, 0, 0, 0]) };
+      expect(verify([computeBudget, transferChecked('9.79')])).toEqual([]);
+    });
+
+    it('should reject other amounts, mints and authorities', () => {
+      expect(verify([transferChecked('979')])).toEqual(['transfer amount 979 USDC does not match the quoted total of 9.79 USDC']);
+      expect(verify([transferChecked('9.79', { mint: destination })])).toEqual([
+        `transaction transfers tokens of mint ${destination} instead of USDC ${mint}`,
+        'expected one USDC transfer, found 0'
+      ]);
+      expect(verify([transferChecked('9.79', { authority: source })])).toEqual([
+        `USDC transfer is authorized by ${source} instead of the payer ${keypair.publicKey}`
+      ]);
+    });
+
+    it('should reject SOL transfers, unexpected programs and missing co-signers', () => {
+      const lamports = Buffer.alloc(12);
+      lamports.writeUInt32LE(2, 0);
+      lamports.writeBigUInt64LE(BigInt(1000000000), 4);
+      expect(
+        verify([transferChecked('9.79'), { program: SYSTEM_PROGRAM_ID, accounts: [keypair.publicKey, destination], data: lamports }])
+      ).toEqual(['transaction sends 1.0 SOL, expected none']);
+
+      expect(verify([transferChecked('9.79'), { program: destination, accounts: [], data: Buffer.from([]) }])).toEqual([
+        `transaction calls unexpected program ${destination}`
+      ]);
+
+      expect(verify([transferChecked('9.79')], { signers: [source, keypair.publicKey] })).toEqual([
+        `transaction also needs a signature from ${source}`
+      ]);
+    });
+
+    it('should only allow creating the token account that receives the payment', () => {
+      const createAccount = (account: string) => ({
+        program: ASSOCIATED_TOKEN_PROGRAM_ID,
+        accounts: [keypair.publicKey, account, keypair.publicKey, mint, SYSTEM_PROGRAM_ID, TOKEN_PROGRAM_ID],
+        data: Buffer.from([1])
+      });
+
+      expect(verify([createAccount(destination), transferChecked('9.79')])).toEqual([]);
+      expect(verify([createAccount(source), transferChecked('9.79')])).toEqual([
+        `transaction creates token account ${source}, which does not receive the USDC transfer`
+      ]);
+    });
+
+    it('should reject token approvals and authority changes next to the payment', () => {
+      const approve = Buffer.alloc(9);
+      approve[0] = 4;
+      approve.writeBigUInt64LE(BigInt(1000000000), 1);
+      expect(
+        verify([transferChecked('9.79'), { program: TOKEN_PROGRAM_ID, accounts: [source, destination, keypair.publicKey], data: approve }])
+      ).toEqual(['transaction contains unexpected Token instruction Approve']);
+
+      // SetAuthority of the account owner to another key
+      const setAuthority = Buffer.concat([Buffer.from([6, 2, 1]), Buffer.from(ethers.utils.base58.decode(destination))]);
+      expect(
+        verify([transferChecked('9.79'), { program: TOKEN_PROGRAM_ID, accounts: [source, keypair.publicKey], data: setAuthority }])
+      ).toEqual(['transaction contains unexpected Token instruction SetAuthority']);
+
+      const assign = Buffer.concat([Buffer.from([1, 0, 0, 0]), Buffer.from(ethers.utils.base58.decode(destination))]);
+      expect(verify([transferChecked('9.79'), { program: SYSTEM_PROGRAM_ID, accounts: [keypair.publicKey], data: assign }])).toEqual([
+        'transaction contains unexpected System instruction Assign'
+      ]);
+    });
+  });
+
+  describe('RPC', () => {
+    let server: http.Server;
+    let url: string;
+    let statuses: unknown[];
+    let received: Array<{ method: string; params: unknown[] }>;
+
+    beforeEach(async () => {
+      received = [];
+      statuses = [];
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+          const request = JSON.parse(body);
+          received.push(request);
+          const results: Record<string, unknown> = {
+            getGenesisHash: 'EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG',
+            sendTransaction: 'signature-1',
+            getSignatureStatuses: { context: { slot: 1 }, value: [statuses.shift() ?? null] }
+          };
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: results[request.method] }));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should check the genesis hash of every endpoint', async () => {
+      await expect(createSolanaRpcClient('solana-devnet', [url])).resolves.toBeInstanceOf(SolanaRpcClient);
+      await expect(createSolanaRpcClient('solana', [url])).rejects.toThrow(RpcEndpointError);
+    });
+
+    it('should submit the signed transaction and wait for confirmation', async () => {
+      const client = new SolanaRpcClient('solana-devnet', [url]);
+      const transaction = decodeSolanaTransaction(buildTransaction([transferChecked('9.79')]));
+      statuses = [null, { slot: 42, err: null, confirmationStatus: 'processed' }, { slot: 42, err: null, confirmationStatus: 'confirmed' }];
+
+      const signature = await sendSolanaTransaction(client, signSolanaTransaction(transaction, keypair));
+      expect(signature).toBe('signature-1');
+      expect(received[0].params[1]).toMatchObject({ encoding: 'base64' });
+      await expect(waitForSolanaConfirmation(client, signature, { pollIntervalMs: 1 })).resolves.toBe(42);
+    });
+
+    it('should report failed transactions', async () => {
+      const client = new SolanaRpcClient('solana-devnet', [url]);
+      statuses = [{ slot: 7, err: { InstructionError: [0, 'Custom'] }, confirmationStatus: 'confirmed' }];
+
+      await expect(waitForSolanaConfirmation(client, 'signature-1', { pollIntervalMs: 1 })).rejects.toThrow(
+        TransactionRevertedError
+      );
+    });
+  });
+});
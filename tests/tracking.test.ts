@@ -0,0 +1,95 @@
+import { OrderStatusResponse, ShippingAddress } from '../src/index';
+import { OrderRecord } from '../src/order-history';
+import { formatLineItemDelivery, formatRecipient, getLineItemDeliveries } from '../src/tracking';
+import { OrderEventTracker } from '../src/watcher';
+
+describe('Delivery Tracking', () => {
+  const shippingAddress: ShippingAddress = {
+    name: 'Jane Doe',
+    line1: '1 Main St',
+    city: 'Springfield',
+    state: 'IL',
+    postalCode: '62701',
+    country: 'US'
+  };
+
+  function orderStatus(...deliveries: Array<Record<string, unknown> | undefined>): OrderStatusResponse {
+    return {
+      order: {
+        orderId: 'order-1',
+        phase: 'delivery',
+        lineItems: deliveries.map((delivery, index) => ({
+          metadata: { name: `Item ${index + 1}` },
+          quantity: index + 1,
+          delivery: delivery as { status: string } | undefined
+        }))
+      }
+    };
+  }
+
+  it('should describe each line item delivery with its tracking details and recipient', () => {
+    const record = { orderId: 'order-1', shippingAddress } as OrderRecord;
+    const deliveries = getLineItemDeliveries(
+      orderStatus(
+        {
+          status: 'in-progress',
+          carrier: 'UPS',
+          trackingNumber: '1Z999AA10123456784',
+          recipient: { email: 'jane@example.com' }
+        },
+        undefined
+      ),
+      record
+    );
+
+    expect(deliveries).toEqual([
+      {
+        lineItemIndex: 0,
+        name: 'Item 1',
+        quantity: 1,
+        status: 'in-progress',
+        carrier: 'UPS',
+        trackingNumber: '1Z999AA10123456784',
+        trackingUrl: undefined,
+        recipient: 'Jane Doe, Springfield, IL 62701, US (jane@example.com)'
+      },
+      expect.objectContaining({ lineItemIndex: 1, status: 'pending', recipient: 'Jane Doe, Springfield, IL 62701, US' })
+    ]);
+    expect(deliveries.map(formatLineItemDelivery)).toEqual([
+      '1. Item 1 x1: in-progress, UPS 1Z999AA10123456784',
+      '2. Item 2 x2: pending, no tracking number yet'
+    ]);
+  });
+
+  it('should fall back to the recipient the API reports', () => {
+    expect(formatRecipient({ email: 'jane@example.com' })).toBe('jane@example.com');
+    expect(formatRecipient({ locator: 'email:jane@example.com' })).toBe('email:jane@example.com');
+    expect(formatRecipient(undefined)).toBeUndefined();
+  });
+
+  it('should report tracking numbers once, when they first appear', () => {
+    const tracker = new OrderEventTracker('order-1', { phase: 'delivery', paymentStatus: 'unknown', quoteStatus: 'unknown' });
+
+    expect(tracker.update(orderStatus({ status: 'in-progress' })).map(event => event.type)).toEqual(['delivery-status-changed']);
+
+    const shipped = tracker.update(orderStatus({ status: 'in-progress', carrier: 'UPS', trackingNumber: '1Z999AA10123456784' }));
+    expect(shipped).toEqual([
+      expect.objectContaining({ type: 'delivery-tracking-changed', lineItemIndex: 0, carrier: 'UPS', trackingNumber: '1Z999AA10123456784' })
+    ]);
+
+    const delivered = tracker.update(orderStatus({ status: 'completed', carrier: 'UPS', trackingNumber: '1Z999AA10123456784' }));
+    expect(delivered.map(event => event.type)).toEqual(['delivery-status-changed', 'terminal']);
+  });
+
+  it('should report a tracking number that arrives with a new delivery status only once', () => {
+    const tracker = new OrderEventTracker('order-1', { phase: 'delivery', paymentStatus: 'unknown', quoteStatus: 'unknown' });
+
+    const shipped = tracker.update(orderStatus({ status: 'in-progress', carrier: 'UPS', trackingNumber: '1Z999AA10123456784' }));
+    expect(shipped.map(event => event.type)).toEqual(['delivery-status-changed']);
+
+    const relabeled = tracker.update(orderStatus({ status: 'in-progress', carrier: 'UPS', trackingNumber: '1Z999AA10123456785' }));
+    expect(relabeled).toEqual([
+      expect.objectContaining({ type: 'delivery-tracking-changed', trackingNumber: '1Z999AA10123456785' })
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { ethers } from 'ethers';
+import { Order } from '../src/payment';
+import { assertPaymentTransaction, verifyPaymentTransaction } from '../src/verification';
+import { CHAINS } from '../src/chains';
+import { TransactionVerificationError } from '../src/errors';
+
+describe('Payment Transaction Verification', () => {
+  const erc20 = new ethers.utils.Interface(['function transfer(address to, uint256 amount) returns (bool)']);
+  const recipient = '0x000000000000000000000000000000000000dEaD';
+  const payer = '0x1111111111111111111111111111111111111111';
+  const usdc = CHAINS['base-sepolia'].usdc.address;
+
+  const order: Order = {
+    orderId: 'order-1',
+    phase: 'payment',
+    quote: { status: 'valid', totalPrice: { amount: '9.79', currency: 'usdc' } },
+    payment: { status: 'awaiting-payment', method: 'base-sepolia', currency: 'usdc' }
+  };
+
+  function transferTransaction(
+    overrides: Partial<ethers.utils.UnsignedTransaction> = {},
+    amount: string = '9.79',
+    to: string = recipient
+  ) {
+    const serialized = ethers.utils.serializeTransaction({
+      chainId: 84532,
+      to: usdc,
+      value: 0,
+      nonce: 0,
+      gasLimit: 100000,
+      gasPrice: 1,
+      data: erc20.encodeFunctionData('transfer', [to, ethers.utils.parseUnits(amount, 6)]),
+      ...overrides
+    });
+    return ethers.utils.parseTransaction(serialized);
+  }
+
+  it('should accept a USDC transfer of the quoted amount on the order chain', () => {
+    expect(verifyPaymentTransaction(order, transferTransaction(), payer)).toEqual([]);
+    expect(() => assertPaymentTransaction(order, transferTransaction(), payer)).not.toThrow();
+  });
+
+  it('should accept amounts within the tolerance', () => {
+    expect(verifyPaymentTransaction(order, transferTransaction({}, '9.80'), payer, 0.01)).toEqual([]);
+    expect(verifyPaymentTransaction(order, transferTransaction({}, '9.80'), payer, 0)).toHaveLength(1);
+  });
+
+  it('should reject transfers of a different amount', () => {
+    expect(verifyPaymentTransaction(order, transferTransaction({}, '979'), payer)).toEqual([
+      'transfer amount 979 USDC does not match the quoted total of 9.79 USDC'
+    ]);
+  });
+
+  it('should reject transactions on another chain, to another contract or with native value', () => {
+    expect(verifyPaymentTransaction(order, transferTransaction({ chainId: 8453 }), payer)).toEqual([
+      'chain ID 8453 does not match base-sepolia (84532)'
+    ]);
+    expect(verifyPaymentTransaction(order, transferTransaction({ to: recipient }), payer)[0]).toMatch(
+      /instead of the USDC contract/
+    );
+    expect(verifyPaymentTransaction(order, transferTransaction({ value: ethers.utils.parseEther('1') }), payer)).toEqual([
+      'transaction sends 1.0 native tokens, expected none'
+    ]);
+  });
+
+  it('should reject transfers to the zero address or back to the payer', () => {
+    expect(verifyPaymentTransaction(order, transferTransaction({}, '9.79', ethers.constants.AddressZero), payer)).toEqual([
+      'transfer recipient is the zero address'
+    ]);
+    expect(verifyPaymentTransaction(order, transferTransaction({}, '9.79', payer), payer)).toEqual([
+      'transfer recipient is the payer'
+    ]);
+  });
+
+  describe('with a recipient allowlist', () => {
+    afterEach(() => {
+      delete process.env.PAYMENT_RECIPIENT_ALLOWLIST;
+    });
+
+    it('should only accept allowlisted recipients', () => {
+      process.env.PAYMENT_RECIPIENT_ALLOWLIST = `0x2222222222222222222222222222222222222222, ${recipient.toLowerCase()}`;
+      expect(verifyPaymentTransaction(order, transferTransaction(), payer)).toEqual([]);
+
+      process.env.PAYMENT_RECIPIENT_ALLOWLIST = '0x2222222222222222222222222222222222222222';
+      expect(verifyPaymentTransaction(order, transferTransaction(), payer)).toEqual([
+        `transfer recipient ${recipient} is not in PAYMENT_RECIPIENT_ALLOWLIST`
+      ]);
+    });
+
+    it('should refuse an allowlist with invalid addresses', () => {
+      process.env.PAYMENT_RECIPIENT_ALLOWLIST = '0x2222, 0x1111';
+      expect(() => verifyPaymentTransaction(order, transferTransaction(), payer)).toThrow(
+        'Invalid address in PAYMENT_RECIPIENT_ALLOWLIST: 0x2222'
+      );
+    });
+  });
+
+  describe('gas cost limit', () => {
+    afterEach(() => {
+      delete process.env.PAYMENT_MAX_GAS_COST_BASE_SEPOLIA;
+    });
+
+    it('should reject an inflated gas limit or fee', () => {
+      const gwei = (amount: string) => ethers.utils.parseUnits(amount, 'gwei');
+
+      expect(verifyPaymentTransaction(order, transferTransaction({ gasLimit: 30000000, gasPrice: gwei('1') }), payer)).toEqual([
+        'transaction can spend up to 0.03 ETH on gas, more than the limit of 0.001 ETH'
+      ]);
+      expect(
+        verifyPaymentTransaction(
+          order,
+          transferTransaction({ type: 2, gasPrice: undefined, maxFeePerGas: gwei('100000'), maxPriorityFeePerGas: 1 }),
+          payer
+        )
+      ).toEqual(['transaction can spend up to 10.0 ETH on gas, more than the limit of 0.001 ETH']);
+    });
+
+    it('should use the limit configured for the chain', () => {
+      process.env.PAYMENT_MAX_GAS_COST_BASE_SEPOLIA = '0.05';
+      expect(verifyPaymentTransaction(order, transferTransaction({ gasLimit: 30000000, gasPrice: 1000000000 }), payer)).toEqual([]);
+
+      process.env.PAYMENT_MAX_GAS_COST_BASE_SEPOLIA = 'lots';
+      expect(() => verifyPaymentTransaction(order, transferTransaction(), payer)).toThrow('Invalid PAYMENT_MAX_GAS_COST_BASE_SEPOLIA: lots');
+    });
+  });
+
+  it('should reject calldata that is not an ERC-20 transfer', () => {
+    const approve = new ethers.utils.Interface(['function approve(address spender, uint256 amount) returns (bool)']);
+    const transaction = transferTransaction({
+      data: approve.encodeFunctionData('approve', [recipient, ethers.constants.MaxUint256])
+    });
+
+    expect(verifyPaymentTransaction(order, transaction, payer)).toEqual(['calldata is not an ERC-20 transfer']);
+  });
+
+  it('should reject unknown payment methods and non-USDC quotes', () => {
+    expect(verifyPaymentTransaction({ ...order, payment: { ...order.payment, method: 'solana' } }, transferTransaction(), payer)).toEqual([
+      'payment method solana has no known USDC contract'
+    ]);
+    expect(
+      verifyPaymentTransaction(
+        { ...order, quote: { status: 'valid', totalPrice: { amount: '9.79', currency: 'eth' } } },
+        transferTransaction(),
+        payer
+      )
+    ).toEqual(['quote currency eth is not USDC']);
+  });
+
+  it('should explain every problem when refusing to sign', () => {
+    const transaction = transferTransaction({ chainId: 1 }, '500');
+
+    let thrown: unknown;
+    try {
+      assertPaymentTransaction(order, transaction, payer);
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(TransactionVerificationError);
+    expect((thrown as TransactionVerificationError).reasons).toHaveLength(2);
+  });
+});
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import {
+  findPoolPayer,
+  loadWalletPool,
+  PayerCandidate,
+  rankPayerCandidates,
+  selectPayer,
+  WalletPool,
+  WalletPoolEntry
+} from '../src/wallet-pool';
+import { InsufficientFundsError } from '../src/errors';
+
+describe('Wallet Pool', () => {
+  const opsKey = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+  const treasuryKey = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+  const opsAddress = new ethers.Wallet(opsKey).address;
+  const treasuryAddress = new ethers.Wallet(treasuryKey).address;
+  const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+  const gwei = (amount: string) => ethers.utils.parseUnits(amount, 'gwei');
+
+  const pool: WalletPool = {
+    chainPriority: ['polygon', 'base'],
+    gasTokenPricesUsd: { ETH: 3000, POL: 0.5 },
+    wallets: [
+      { name: 'ops', privateKeyEnv: 'POOL_OPS_KEY', chains: ['base', 'polygon'] },
+      { name: 'treasury', privateKeyEnv: 'POOL_TREASURY_KEY', chains: ['base'] }
+    ]
+  };
+
+  function candidate(name: string, chain: string, usdcBalance: string, gasCostGwei: string = '1000'): PayerCandidate {
+    return {
+      name,
+      address: name === 'ops' ? opsAddress : treasuryAddress,
+      chain,
+      usdc: usdc(usdcBalance),
+      native: ethers.utils.parseEther('1'),
+      estimatedGasCost: gwei(gasCostGwei)
+    };
+  }
+
+  beforeEach(() => {
+    process.env.POOL_OPS_KEY = opsKey;
+    process.env.POOL_TREASURY_KEY = treasuryKey;
+  });
+
+  afterEach(() => {
+    delete process.env.POOL_OPS_KEY;
+    delete process.env.POOL_TREASURY_KEY;
+  });
+
+  describe('loadWalletPool', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wallet-pool-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should return null without a pool file and validate existing ones', () => {
+      const poolPath = path.join(dataDir, 'wallets.json');
+      expect(loadWalletPool(poolPath)).toBeNull();
+
+      fs.writeFileSync(poolPath, JSON.stringify(pool));
+      expect(loadWalletPool(poolPath)).toEqual(pool);
+
+      fs.writeFileSync(poolPath, JSON.stringify({ wallets: [{ name: 'ops' }] }));
+      expect(() => loadWalletPool(poolPath)).toThrow('every wallet needs a name and privateKeyEnv');
+
+      fs.writeFileSync(poolPath, JSON.stringify({ ...pool, strategy: 'random' }));
+      expect(() => loadWalletPool(poolPath)).toThrow('unknown strategy random');
+    });
+  });
+
+  describe('rankPayerCandidates', () => {
+    const candidates = [candidate('ops', 'base', '50', '20000'), candidate('ops', 'polygon', '50', '3000000')];
+
+    it('should follow the chain priority by default', () => {
+      expect(rankPayerCandidates(candidates, pool).map(entry => entry.chain)).toEqual(['polygon', 'base']);
+    });
+
+    it('should prefer the cheapest gas in USD when asked to', () => {
+      // 20000 gwei of ETH is $0.06, 3000000 gwei of POL is $0.0015
+      expect(rankPayerCandidates(candidates, { ...pool, strategy: 'cheapest-gas' }).map(entry => entry.chain)).toEqual([
+        'polygon',
+        'base'
+      ]);
+      expect(
+        rankPayerCandidates(candidates, { ...pool, strategy: 'cheapest-gas', gasTokenPricesUsd: { ETH: 3000, POL: 100 } }).map(
+          entry => entry.chain
+        )
+      ).toEqual(['base', 'polygon']);
+    });
+  });
+
+  describe('selectPayer', () => {
+    const balances: Record<string, PayerCandidate> = {
+      'ops:base': candidate('ops', 'base', '5'),
+      'ops:polygon': candidate('ops', 'polygon', '8'),
+      'treasury:base': candidate('treasury', 'base', '500')
+    };
+    const getCandidate = async (wallet: WalletPoolEntry, chain: string) => balances[`${wallet.name}:${chain}`];
+
+    it('should pick the most preferred wallet that can cover the quote', async () => {
+      await expect(selectPayer(pool, {}, getCandidate)).resolves.toEqual({
+        name: 'ops',
+        address: opsAddress,
+        chain: 'polygon',
+        privateKey: opsKey
+      });
+      await expect(selectPayer(pool, { requiredUsdc: usdc('9.79') }, getCandidate)).resolves.toMatchObject({
+        name: 'treasury',
+        chain: 'base'
+      });
+    });
+
+    it('should only consider the requested chain', async () => {
+      await expect(selectPayer(pool, { chain: 'base' }, getCandidate)).resolves.toMatchObject({ name: 'ops', chain: 'base' });
+    });
+
+    it('should explain why no wallet can pay', async () => {
+      const unreachable = async (wallet: WalletPoolEntry, chain: string) => {
+        if (chain === 'polygon') {
+          throw new Error('could not detect network');
+        }
+        return balances[`${wallet.name}:${chain}`];
+      };
+
+      await expect(selectPayer(pool, { requiredUsdc: usdc('1000') }, unreachable)).rejects.toThrow(InsufficientFundsError);
+      await expect(selectPayer(pool, { requiredUsdc: usdc('1000') }, unreachable)).rejects.toThrow(
+        'ops on polygon: could not detect network'
+      );
+    });
+  });
+
+  describe('findPoolPayer', () => {
+    it('should find the pool wallet an order was created with', () => {
+      expect(findPoolPayer(pool, treasuryAddress.toLowerCase(), 'base')).toEqual({
+        name: 'treasury',
+        address: treasuryAddress,
+        chain: 'base',
+        privateKey: treasuryKey
+      });
+      expect(findPoolPayer(pool, '0x000000000000000000000000000000000000dEaD', 'base')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+import { estimateMaxGasCost, evaluateWalletFunds, getRawBalances } from '../src/wallet';
+
+describe('Wallet', () => {
+  const usdc = (amount: string) => ethers.utils.parseUnits(amount, 6);
+  const ether = (amount: string) => ethers.utils.parseEther(amount);
+
+  describe('evaluateWalletFunds', () => {
+    it('should require non-zero balances when no amounts are known yet', () => {
+      expect(evaluateWalletFunds('base', { usdc: usdc('1'), native: ether('0.01') })).toEqual([]);
+      expect(evaluateWalletFunds('base', { usdc: usdc('0'), native: ether('0') })).toEqual([
+        'USDC balance on base is 0.0',
+        'ETH balance on base is 0.0'
+      ]);
+    });
+
+    it('should compare balances with the required USDC and gas', () => {
+      const balances = { usdc: usdc('9.5'), native: ether('0.001') };
+
+      expect(evaluateWalletFunds('polygon', balances, { usdc: usdc('9.5'), gas: ether('0.001') })).toEqual([]);
+      expect(evaluateWalletFunds('polygon', balances, { usdc: usdc('9.79'), gas: ether('0.002') })).toEqual([
+        'USDC balance on polygon is 9.5, needs 9.79',
+        'POL balance on polygon is 0.001, needs about 0.002'
+      ]);
+    });
+  });
+
+  describe('estimateMaxGasCost', () => {
+    const provider = {
+      getFeeData: async () => ({ maxFeePerGas: ethers.BigNumber.from(3), gasPrice: ethers.BigNumber.from(2) })
+    } as unknown as ethers.providers.Provider;
+
+    function parse(transaction: ethers.utils.UnsignedTransaction): ethers.Transaction {
+      return ethers.utils.parseTransaction(ethers.utils.serializeTransaction({ chainId: 8453, nonce: 0, ...transaction }));
+    }
+
+    it('should use the fee in the transaction when present', async () => {
+      await expect(estimateMaxGasCost(parse({ gasLimit: 100000, gasPrice: 5 }), provider)).resolves.toEqual(
+        ethers.BigNumber.from(500000)
+      );
+      await expect(
+        estimateMaxGasCost(parse({ type: 2, gasLimit: 100000, maxFeePerGas: 7, maxPriorityFeePerGas: 1 }), provider)
+      ).resolves.toEqual(ethers.BigNumber.from(700000));
+    });
+
+    it('should fall back to the current fee data and skip transactions without a gas limit', async () => {
+      await expect(estimateMaxGasCost(parse({ gasLimit: 100000 }), provider)).resolves.toEqual(ethers.BigNumber.from(300000));
+      await expect(estimateMaxGasCost(parse({}), provider)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getRawBalances', () => {
+    it('should reject unsupported chains', async () => {
+      await expect(getRawBalances('0x000000000000000000000000000000000000dEaD', 'dogechain')).rejects.toThrow(
+        'Unsupported chain: dogechain'
+      );
+    });
+  });
+});
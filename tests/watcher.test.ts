@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getOrderTerminalState, watchOrder, OrderWatchEvent } from '../src/watcher';
+import { PollingTimeoutError } from '../src/errors';
+import { OrderStatusResponse } from '../src/index';
+
+describe('Order Watcher', () => {
+  function orderStatus(phase: string, fields: Partial<NonNullable<OrderStatusResponse['order']>> = {}): OrderStatusResponse {
+    return { order: { orderId: 'order-1', phase, ...fields } };
+  }
+
+  function payment(status: string) {
+    return { status, method: 'base-sepolia', currency: 'usdc' };
+  }
+
+  function deliveries(...statuses: Array<string | undefined>) {
+    return statuses.map(status => (status ? { delivery: { status } } : {}));
+  }
+
+  describe('getOrderTerminalState', () => {
+    it('should return undefined while the order is in progress', () => {
+      expect(getOrderTerminalState(orderStatus('payment', { quote: { status: 'valid' } }))).toBeUndefined();
+    });
+
+    it('should detect failed and canceled payments', () => {
+      expect(getOrderTerminalState(orderStatus('payment', { payment: payment('failed') }))).toBe('payment-failed');
+      expect(getOrderTerminalState(orderStatus('payment', { payment: payment('canceled') }))).toBe('payment-canceled');
+    });
+
+    it('should detect expired quotes on unpaid orders', () => {
+      expect(getOrderTerminalState(orderStatus('quote', { quote: { status: 'expired' } }))).toBe('quote-expired');
+      expect(
+        getOrderTerminalState(orderStatus('delivery', { quote: { status: 'expired' }, payment: payment('completed') }))
+      ).toBeUndefined();
+    });
+
+    it('should detect completion from the phase or the line item deliveries', () => {
+      expect(getOrderTerminalState(orderStatus('completed'))).toBe('completed');
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('completed', 'completed') }))).toBe('completed');
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('completed', 'in-progress') }))).toBeUndefined();
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('completed', 'failed') }))).toBe('delivery-failed');
+    });
+
+    it('should wait for every line item to report a final delivery status', () => {
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('completed', undefined) }))).toBeUndefined();
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('failed', undefined) }))).toBeUndefined();
+      expect(getOrderTerminalState(orderStatus('delivery', { lineItems: deliveries('failed', 'in-progress') }))).toBeUndefined();
+    });
+
+    it('should report a failed delivery even when the phase is completed', () => {
+      expect(getOrderTerminalState(orderStatus('completed', { lineItems: deliveries('completed', 'failed') }))).toBe(
+        'delivery-failed'
+      );
+    });
+  });
+
+  describe('watchOrder', () => {
+    let dataDir: string;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watcher-'));
+      process.env.CRYPTO_BUYER_HOME = dataDir;
+    });
+
+    afterEach(() => {
+      delete process.env.CRYPTO_BUYER_HOME;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should yield the initial state once and give up after maxAttempts', async () => {
+      const events: OrderWatchEvent[] = [];
+      const watch = async () => {
+        for await (const event of watchOrder('order-1', { apiKey: 'test-key', initialDelayMs: 1, maxAttempts: 3 })) {
+          events.push(event);
+        }
+      };
+
+      await expect(watch()).rejects.toThrow(PollingTimeoutError);
+      expect(events.map(event => event.type)).toEqual(['phase-changed', 'payment-status-changed', 'quote-status-changed']);
+    });
+
+    it('should stop quietly when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const events: OrderWatchEvent[] = [];
+
+      for await (const event of watchOrder('order-1', { apiKey: 'test-key', initialDelayMs: 60000, signal: controller.signal })) {
+        events.push(event);
+        controller.abort();
+      }
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'phase-changed', phase: 'payment' });
+    });
+  });
+});
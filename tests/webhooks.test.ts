@@ -0,0 +1,182 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import {
+  applyWebhookEvent,
+  createWebhookServer,
+  isWebhookProcessed,
+  markWebhookProcessed,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '../src/webhooks';
+import { getOrderRecord, recordOrderCreated } from '../src/order-history';
+import { OrderEventTracker, OrderWatchEvent } from '../src/watcher';
+import { WebhookVerificationError } from '../src/errors';
+
+describe('Webhooks', () => {
+  const secret = 'whsec_dGVzdC13ZWJob29rLXNlY3JldA==';
+  const now = new Date('2024-05-15T12:00:00Z');
+  const timestamp = Math.floor(now.getTime() / 1000);
+  let dataDir: string;
+
+  function orderWebhook(phase: string, paymentStatus: string, deliveryStatus?: string) {
+    return {
+      type: 'orders.payment.succeeded',
+      data: {
+        orderId: 'order-1',
+        phase,
+        quote: { status: 'valid' },
+        payment: { status: paymentStatus, method: 'base-sepolia', currency: 'usdc' },
+        lineItems: deliveryStatus ? [{ delivery: { status: deliveryStatus } }] : []
+      }
+    };
+  }
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+    process.env.CRYPTO_BUYER_HOME = dataDir;
+  });
+
+  afterEach(() => {
+    delete process.env.CRYPTO_BUYER_HOME;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    const body = JSON.stringify(orderWebhook('payment', 'completed'));
+
+    it('should accept a correctly signed webhook', () => {
+      const signature = signWebhookPayload(secret, 'msg_1', timestamp, body);
+      expect(() =>
+        verifyWebhookSignature(secret, { id: 'msg_1', timestamp: String(timestamp), signature }, body, 300, now)
+      ).not.toThrow();
+    });
+
+    it('should accept any of several signatures during secret rotation', () => {
+      const signature = `v1,bm90LXRoZS1zaWduYXR1cmU= ${signWebhookPayload(secret, 'msg_1', timestamp, body)}`;
+      expect(() =>
+        verifyWebhookSignature(secret, { id: 'msg_1', timestamp: String(timestamp), signature }, body, 300, now)
+      ).not.toThrow();
+    });
+
+    it('should reject tampered bodies, wrong secrets and missing headers', () => {
+      const signature = signWebhookPayload(secret, 'msg_1', timestamp, body);
+      const headers = { id: 'msg_1', timestamp: String(timestamp), signature };
+
+      expect(() => verifyWebhookSignature(secret, headers, body.replace('completed', 'failed'), 300, now)).toThrow(
+        WebhookVerificationError
+      );
+      expect(() => verifyWebhookSignature('whsec_b3RoZXI=', headers, body, 300, now)).toThrow('Invalid webhook signature');
+      expect(() => verifyWebhookSignature(secret, { ...headers, id: 'msg_2' }, body, 300, now)).toThrow(
+        'Invalid webhook signature'
+      );
+      expect(() => verifyWebhookSignature(secret, { ...headers, signature: undefined }, body, 300, now)).toThrow(
+        'Missing webhook ID, timestamp or signature header'
+      );
+    });
+
+    it('should reject webhooks outside the timestamp tolerance', () => {
+      const staleTimestamp = timestamp - 301;
+      const signature = signWebhookPayload(secret, 'msg_1', staleTimestamp, body);
+      expect(() =>
+        verifyWebhookSignature(secret, { id: 'msg_1', timestamp: String(staleTimestamp), signature }, body, 300, now)
+      ).toThrow('outside the 300s tolerance');
+    });
+  });
+
+  describe('markWebhookProcessed', () => {
+    it('should remember webhook IDs and forget them after the replay window', () => {
+      markWebhookProcessed('msg_1', 300, now);
+      expect(isWebhookProcessed('msg_1')).toBe(true);
+      expect(isWebhookProcessed('msg_2')).toBe(false);
+
+      markWebhookProcessed('msg_2', 300, new Date(now.getTime() + 601 * 1000));
+      expect(isWebhookProcessed('msg_1')).toBe(false);
+      expect(isWebhookProcessed('msg_2')).toBe(true);
+    });
+  });
+
+  describe('applyWebhookEvent', () => {
+    it('should update the order history and report only what changed since the stored state', () => {
+      recordOrderCreated({
+        orderId: 'order-1',
+        lineItems: [{ source: 'amazon', productIdentifier: 'B01DFKC2SO', isUrl: false }],
+        chain: 'base-sepolia',
+        quoteStatus: 'valid'
+      });
+      const trackers = new Map<string, OrderEventTracker>();
+
+      const paid = applyWebhookEvent(orderWebhook('delivery', 'completed'), trackers);
+      expect(paid.map(event => event.type)).toEqual(['phase-changed', 'payment-status-changed']);
+      expect(getOrderRecord('order-1')).toMatchObject({ phase: 'delivery', paymentStatus: 'completed' });
+
+      const delivered = applyWebhookEvent(orderWebhook('completed', 'completed', 'completed'), trackers);
+      expect(delivered.map(event => event.type)).toEqual(['phase-changed', 'delivery-status-changed', 'terminal']);
+      expect(getOrderRecord('order-1')?.phase).toBe('completed');
+    });
+
+    it('should ignore webhooks without an order', () => {
+      expect(applyWebhookEvent({ type: 'ping' }, new Map())).toEqual([]);
+    });
+  });
+
+  describe('createWebhookServer', () => {
+    let server: http.Server;
+    let url: string;
+    let events: OrderWatchEvent[];
+
+    beforeEach(async () => {
+      events = [];
+      server = createWebhookServer({ secret, onEvent: event => events.push(event) });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/crossmint`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    function post(id: string, body: string, signingSecret: string = secret) {
+      const currentTimestamp = Math.floor(Date.now() / 1000);
+      return axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'svix-id': id,
+          'svix-timestamp': String(currentTimestamp),
+          'svix-signature': signWebhookPayload(signingSecret, id, currentTimestamp, body)
+        },
+        transformRequest: data => data,
+        validateStatus: () => true
+      });
+    }
+
+    it('should apply signed webhooks and reject replays and bad signatures', async () => {
+      const body = JSON.stringify(orderWebhook('completed', 'completed', 'completed'));
+
+      const accepted = await post('msg_1', body);
+      expect(accepted.status).toBe(200);
+      expect(events.map(event => event.type)).toContain('terminal');
+      expect(isWebhookProcessed('msg_1')).toBe(true);
+
+      const replayed = await post('msg_1', body);
+      expect(replayed.status).toBe(409);
+
+      const forged = await post('msg_2', body, 'whsec_b3RoZXI=');
+      expect(forged.status).toBe(401);
+      expect(isWebhookProcessed('msg_2')).toBe(false);
+    });
+
+    it('should reject invalid JSON, malformed events and unknown paths', async () => {
+      expect((await post('msg_3', 'not json')).status).toBe(400);
+      for (const [index, body] of ['null', '42', '[]', '{"type":"orders.updated"}', '{"type":1,"data":{}}'].entries()) {
+        expect((await post(`msg_4_${index}`, body)).status).toBe(400);
+      }
+      expect((await axios.post(url.replace('/webhooks/crossmint', '/other'), '{}', { validateStatus: () => true })).status).toBe(
+        404
+      );
+    });
+  });
+});